@@ -1,10 +1,22 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Canvas } from './components/Canvas';
-import { Container, Sample, ToolType, Material, SampleSize } from './types';
-import { GridPhysicsEngine } from './engine/PhysicsEngine';
+import { Container, Sample, ToolType, Material, SampleSize, SolverSettings, ContainerPanel, EnergyReport, SimulationMode, PCMSettings, AmbientSchedule, WeatherSettings, BathSettings, BathReport, FillConductivityReport, SurfaceLossSettings, MeshStudyReport, SteadyStateReport, RCEstimate } from './types';
+import { PhysicsWorkerClient } from './engine/PhysicsWorkerClient';
+import { EngineSnapshotReader } from './engine/EngineSnapshotReader';
+import { AxisymmetricEngine, RZLayout } from './engine/AxisymmetricEngine';
+import { VoxelEngine } from './engine/VoxelEngine';
 import { MaterialLibrary } from './engine/MaterialLibrary';
+import { ConvectionLibrary } from './engine/ConvectionLibrary';
+import { HydrationModel } from './engine/HydrationModel';
+import { AmbientScheduleModel } from './engine/AmbientScheduleModel';
+import { WeatherModel } from './engine/WeatherModel';
+import { BathModel } from './engine/BathModel';
+import { MeshConvergenceStudy } from './engine/MeshConvergenceStudy';
+import { LumpedRCModel } from './engine/LumpedRCModel';
+import { SurfaceLossModel } from './engine/SurfaceLossModel';
 import { InterferenceCalculator } from './engine/InterferenceAnalyzer';
 import { TemperatureGraph } from './components/TemperatureGraph';
+import { SideElevationCanvas } from './components/SideElevationCanvas';
 import { PIXELS_PER_INCH } from './const';
 import './styles/main.scss';
 
@@ -20,6 +32,9 @@ const Icons = {
   ZoomOut: () => <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><path d="M15.5 14h-.79l-.28-.27C15.41 12.59 16 11.11 16 9.5 16 5.91 13.09 3 9.5 3S3 5.91 3 9.5 5.91 16 9.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z"/><path d="M7 9h5v1H7z"/></svg>
 };
 
+// Simulated seconds advanced per animation frame at 1x speed
+const FRAME_SIM_SECONDS = 0.05;
+
 const App: React.FC = () => {
   // State
   const [container, setContainer] = useState<Container>({
@@ -31,7 +46,7 @@ const App: React.FC = () => {
     fill_type: 'Phenolic Foam',
     water_temperature: 70, // Default water temperature
     wall_material: MaterialLibrary.getMaterials()['Plastic (PVC)'],
-    ambient_temperature: 70
+    ambient_temperature: 70 // Fixed ambient air and no wall until the user opts in
   });
   const [samples, setSamples] = useState<Sample[]>([]);
   const [selectedId, setSelectedId] = useState<string | null>(null);
@@ -42,6 +57,7 @@ const App: React.FC = () => {
   const [autoLayoutCount, setAutoLayoutCount] = useState(4);
   const [defaultSampleSize, setDefaultSampleSize] = useState<SampleSize>('4x8');
   const [simSpeed, setSimSpeed] = useState(1); // 1x to 2400x
+  const [solverSettings, setSolverSettings] = useState<SolverSettings>({ mode: 'explicit', time_step_min: 5, cells_per_inch: 5 });
   const [zoom, setZoom] = useState(1);
   const [autoZoom, setAutoZoom] = useState(true); // Auto-adjust zoom for large containers
   const [pan, setPan] = useState({ x: 0, y: 0 });
@@ -49,14 +65,39 @@ const App: React.FC = () => {
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [elapsedTime, setElapsedTime] = useState(0);
   const [layoutWarning, setLayoutWarning] = useState<string | null>(null);
+  // A loaded file's library materials lack the property tables added since
+  const [constantMaterials, setConstantMaterials] = useState(false);
   const [simulationComplete, setSimulationComplete] = useState(false);
   const [convergenceData, setConvergenceData] = useState<{[key: string]: number}>({});
+  const [energyReport, setEnergyReport] = useState<EnergyReport | null>(null);
+  const [simulationMode, setSimulationMode] = useState<SimulationMode>('plan');
+  const [rzSampleId, setRzSampleId] = useState<string | null>(null);
+  const [rzLayout, setRzLayout] = useState<RZLayout | null>(null);
+  const [rzGridData, setRzGridData] = useState<number[][] | null>(null);
+  const [coreGradient, setCoreGradient] = useState<{ top: number, bottom: number } | null>(null);
+  const [sliceDepthIn, setSliceDepthIn] = useState(4); // Voxel mode slice below the lid
+  const [pcmMelted, setPcmMelted] = useState<number | null>(null); // Melted fraction of a PCM fill
+  const [bathReport, setBathReport] = useState<BathReport | null>(null); // Thermostat bath state
+  const [heaterDuty, setHeaterDuty] = useState(0); // Heater duty (0-1) since the last graph point
+  const [fillConductivity, setFillConductivity] = useState<FillConductivityReport | null>(null);
+  const [meshStudy, setMeshStudy] = useState<MeshStudyReport | null>(null);
+  const [meshStudyHours, setMeshStudyHours] = useState(6);
+  const [meshStudyRunning, setMeshStudyRunning] = useState(false);
+  const [meshStudyProgress, setMeshStudyProgress] = useState(0); // Fraction done
+  const [steadyState, setSteadyState] = useState<SteadyStateReport | null>(null);
+  const [steadySolving, setSteadySolving] = useState(false);
+  const [showEstimate, setShowEstimate] = useState(false);
+  const [estimateHours, setEstimateHours] = useState(24);
+  const [rcEstimate, setRcEstimate] = useState<RCEstimate | null>(null);
   
-  const physicsRef = useRef(new GridPhysicsEngine());
+  // The plan-view engine runs in a worker, created once for the page
+  const physicsRef = useRef<PhysicsWorkerClient>(null!);
+  if (!physicsRef.current) physicsRef.current = new PhysicsWorkerClient();
+  const axisymmetricRef = useRef(new AxisymmetricEngine());
+  const voxelRef = useRef(new VoxelEngine());
   const [gridData, setGridData] = useState<number[][] | null>(null);
   const [graphData, setGraphData] = useState<any[]>([]);
   const animationRef = useRef<number | undefined>(undefined);
-  const timeRef = useRef(0);
   
   // Ref to access latest samples inside the loop without restarting effect
   const samplesRef = useRef(samples);
@@ -64,10 +105,62 @@ const App: React.FC = () => {
     samplesRef.current = samples;
   }, [samples]);
 
+  // Declared before the grid initialization so a new mesh resolution is in
+  // place when the grid is rebuilt
+  useEffect(() => {
+    physicsRef.current.setSolverSettings(solverSettings);
+    axisymmetricRef.current.setSolverSettings(solverSettings);
+    voxelRef.current.setSolverSettings(solverSettings);
+  }, [solverSettings]);
+
   // Initialize Grid on Start
   useEffect(() => {
     physicsRef.current.initialize(container, samples, window.innerWidth - 600, window.innerHeight);
-  }, [container, samples.length]);
+  }, [container, samples.length, solverSettings.cells_per_inch]);
+
+  // Sample studied in r-z mode; re-mesh only when its setup changes, not on
+  // the temperature updates written back during a run
+  const rzSample = samples.find(s => s.id === rzSampleId) ?? samples[0];
+  const weatherActive = WeatherModel.isActive(container.weather);
+  const rzSampleKey = rzSample ? JSON.stringify({ ...rzSample, temperature: undefined }) : '';
+  useEffect(() => {
+    if (simulationMode !== 'axisymmetric' || !rzSample) {
+      setRzLayout(null);
+      return;
+    }
+    axisymmetricRef.current.initialize(container, rzSample, window.innerWidth - 600, window.innerHeight);
+    setRzLayout(axisymmetricRef.current.getLayout());
+    setRzGridData(null);
+  }, [simulationMode, rzSampleKey, container]);
+
+  // Lumped RC estimate; recomputed as samples are dragged or edited, but not
+  // on the temperatures written back during a run
+  const rcSampleKey = JSON.stringify(samples.map(s => ({ ...s, temperature: undefined, frozen_fraction: undefined })));
+  useEffect(() => {
+    if (!showEstimate || simulationMode !== 'plan' || samples.length === 0) {
+      setRcEstimate(null);
+      return;
+    }
+    setRcEstimate(LumpedRCModel.estimate(container, samples, estimateHours * 3600, window.innerWidth - 600, window.innerHeight));
+  }, [showEstimate, simulationMode, rcSampleKey, container, estimateHours]);
+  const estimateCurves = rcEstimate
+    ? Object.fromEntries(samples.filter(s => rcEstimate.sample_temps[s.id]).map(s => [
+        s.name,
+        rcEstimate.times.map((time, i) => ({ time, temp: rcEstimate.sample_temps[s.id][i] }))
+      ]))
+    : undefined;
+
+  useEffect(() => {
+    if (simulationMode !== 'voxel') return;
+    voxelRef.current.initialize(container, samples, window.innerWidth - 600, window.innerHeight);
+  }, [simulationMode, container, samples.length]);
+
+  useEffect(() => {
+    voxelRef.current.setSliceDepth(sliceDepthIn);
+    if (simulationMode === 'voxel' && gridData) {
+      setGridData(voxelRef.current.getGrid());
+    }
+  }, [sliceDepthIn, simulationMode]);
 
   // Auto-adjust zoom to fit container in viewport
   useEffect(() => {
@@ -102,40 +195,51 @@ const App: React.FC = () => {
   useEffect(() => {
     if (isRunning) {
       let frameCount = 0;
-      const loop = () => {
-        // Adaptive Time Step for High Speed
-        // Base step is 0.05s
-        // At 2400x, we need 120s per frame (assuming 60fps is too slow, we do multiple steps)
-        // We can increase dt per step to reduce loop count
-        
-        let steps = simSpeed;
-        let dt = 0.05;
-        
-        // Optimization for high speeds: Increase dt, decrease steps
-        if (simSpeed > 100) {
-           dt = 0.5; // 10x larger step
-           steps = simSpeed / 10;
-        }
-        if (simSpeed > 1000) {
-           dt = 2.0; // 40x larger step
-           steps = simSpeed / 40;
-        }
-
-        for (let i = 0; i < steps; i++) {
-          physicsRef.current.step();
-          timeRef.current += dt;
+      let cancelled = false;
+      const axisymmetric = simulationMode === 'axisymmetric';
+      const ambientVaries = weatherActive || AmbientScheduleModel.isTimeVarying(container.ambient_schedule);
+      // The r-z and voxel engines run here; the plan view runs in its worker,
+      // with one step in flight at a time so the UI thread is never blocked
+      const localEngine = axisymmetric
+        ? axisymmetricRef.current
+        : simulationMode === 'voxel' ? voxelRef.current : null;
+      const physics = physicsRef.current;
+      const stepEngine = async (seconds: number, withGrid: boolean) => {
+        if (!localEngine) return physics.step(seconds, withGrid);
+        localEngine.advance(seconds);
+        return { time: localEngine.getTime(), grid: withGrid ? localEngine.getGrid() : null };
+      };
+      const readEngine = async (sampleIds: string[]) => localEngine
+        ? EngineSnapshotReader.capture(localEngine, sampleIds, null)
+        : physics.querySampleTemps(sampleIds);
+      // Heater energy at the previous graph point, for the duty cycle
+      let heaterMark = { time: 0, energy: 0 };
+      const loop = async () => {
+        // The engine owns simulated time and sub-steps internally at its
+        // stability limit, so any speed advances physical time exactly.
+        // In ADI mode every frame covers at least one full implicit step.
+        let frameSeconds = simSpeed * FRAME_SIM_SECONDS;
+        if (solverSettings.mode === 'adi') {
+          frameSeconds = Math.max(frameSeconds, solverSettings.time_step_min * 60);
         }
-        
-        setElapsedTime(timeRef.current);
 
-        const result = physicsRef.current.getGrid(); // Get latest grid state
-        
         // Throttle Grid Updates
         // At high speeds, we want to update more frequently relative to simulation time,
         // but we are limited by React render speed.
         // Always update at least every frame if speed is high to show progress.
-        if (simSpeed > 100 || frameCount % 2 === 0) {
-          setGridData(result);
+        const withGrid = simSpeed > 100 || frameCount % 2 === 0;
+        const frame = await stepEngine(frameSeconds, withGrid);
+        if (cancelled) return;
+        const simTime = frame.time;
+        
+        setElapsedTime(simTime);
+
+        if (frame.grid) {
+          if (axisymmetric) {
+            setRzGridData(frame.grid);
+          } else {
+            setGridData(frame.grid);
+          }
         }
         
         frameCount++;
@@ -143,13 +247,62 @@ const App: React.FC = () => {
         // Update Graph Data every 30 frames (approx 0.5s real time)
         if (frameCount % 30 === 0) {
           const currentSamples = samplesRef.current;
-          const point: any = { time: Math.round(timeRef.current) };
+          const snapshot = await readEngine(currentSamples.map(s => s.id));
+          if (cancelled) return;
+          // Phase fractions (%) go on the graph's second axis
+          const point: any = { time: Math.round(simTime), phase: {} };
+          const ambient = snapshot.ambient_temperature;
           
           const updatedSamples = currentSamples.map(s => {
-             const temp = physicsRef.current.getSampleTemp(s.id);
+             // The r-z model only simulates the studied sample
+             if (axisymmetric && s.id !== rzSample?.id) return s;
+             const temp = snapshot.sample_temps[s.id];
+             const frozen = snapshot.frozen_fractions[s.id];
              point[s.name] = temp; 
-             return { ...s, temperature: temp };
+             point.phase[`${s.name} frozen %`] = frozen * 100;
+             return { ...s, temperature: temp, frozen_fraction: frozen };
           });
+          const trackedSamples = axisymmetric
+            ? updatedSamples.filter(s => s.id === rzSample?.id)
+            : updatedSamples;
+
+          // Plotted with the samples when the ambient follows a schedule
+          if (ambientVaries) {
+            point['Ambient'] = ambient;
+          }
+
+          if (container.fill_type === 'PCM') {
+            const melted = snapshot.fill_melted;
+            point.phase['PCM melted %'] = melted * 100;
+            setPcmMelted(melted);
+          }
+
+          const bath = snapshot.bath;
+          if (bath && container.bath) {
+            const span = simTime - heaterMark.time;
+            const duty = span > 0 && container.bath.heater_w > 0
+              ? (bath.heater_energy - heaterMark.energy) / (container.bath.heater_w * span)
+              : 0;
+            heaterMark = { time: simTime, energy: bath.heater_energy };
+            point['Bath'] = bath.temperature;
+            point.phase['Heater duty %'] = duty * 100;
+            setBathReport(bath);
+            setHeaterDuty(duty);
+          }
+
+          // Effective fill conductivity, for comparing passive water with foam
+          const fillK = snapshot.fill_conductivity;
+          if (fillK) {
+            point.fill = fillK;
+            setFillConductivity(fillK);
+          }
+
+          if (axisymmetric) {
+            setCoreGradient(axisymmetricRef.current.getCoreGradient());
+          } else if (snapshot.energy) {
+            point.energy = snapshot.energy;
+            setEnergyReport(snapshot.energy);
+          }
 
           setGraphData(prev => {
             const newData = [...prev, point];
@@ -159,20 +312,21 @@ const App: React.FC = () => {
           // Update UI values
           setSamples(updatedSamples);
           
-          // Check convergence: All samples within ±1°F of ambient
+          // Check convergence: All samples within ±1°F of ambient. A cycling
+          // ambient never settles, so scheduled runs are stopped by hand.
           const tolerance = 1.0; // ±1°F
-          const allConverged = updatedSamples.every(s => 
-            Math.abs(s.temperature - container.ambient_temperature) <= tolerance
+          const allConverged = !ambientVaries && trackedSamples.every(s => 
+            Math.abs(s.temperature - ambient) <= tolerance
           );
           
-          if (allConverged && updatedSamples.length > 0 && !simulationComplete) {
+          if (allConverged && trackedSamples.length > 0 && !simulationComplete) {
             setIsRunning(false);
             setSimulationComplete(true);
             
             // Record convergence times for each sample
             const convergenceTimes: {[key: string]: number} = {};
-            updatedSamples.forEach(s => {
-              convergenceTimes[s.name] = timeRef.current;
+            trackedSamples.forEach(s => {
+              convergenceTimes[s.name] = simTime;
             });
             setConvergenceData(convergenceTimes);
           }
@@ -180,14 +334,23 @@ const App: React.FC = () => {
         
         animationRef.current = requestAnimationFrame(loop);
       };
-      animationRef.current = requestAnimationFrame(loop);
+      readEngine([]).then(start => {
+        if (cancelled) return;
+        heaterMark = { time: start.time, energy: start.bath?.heater_energy ?? 0 };
+        animationRef.current = requestAnimationFrame(loop);
+      });
+      return () => {
+        cancelled = true;
+        if (animationRef.current) cancelAnimationFrame(animationRef.current);
+        if (!localEngine) physics.pause();
+      };
     } else {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
     }
     return () => {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [isRunning, container, simSpeed]);
+  }, [isRunning, container, simSpeed, solverSettings, simulationMode, rzSample?.id]);
 
   // Handlers
   const handleSave = () => {
@@ -207,8 +370,13 @@ const App: React.FC = () => {
     reader.onload = (event) => {
       try {
         const data = JSON.parse(event.target?.result as string);
-        setContainer(data.container);
-        setSamples(data.samples);
+        // Older files predate the library's property tables and phase change.
+        // They run as saved, with constant properties, until the user opts in.
+        const loaded: Container = data.container;
+        const loadedSamples: Sample[] = data.samples;
+        setContainer(loaded);
+        setSamples(loadedSamples);
+        setConstantMaterials(usedMaterials(loaded, loadedSamples).some(m => MaterialLibrary.lacksLibraryTables(m)));
       } catch (err) {
         alert('Invalid JSON file');
       }
@@ -216,10 +384,44 @@ const App: React.FC = () => {
     reader.readAsText(file);
   };
 
+  // Every material a setup uses
+  const usedMaterials = (c: Container, s: Sample[]): Material[] => [
+    c.fill_material,
+    c.wall_material,
+    ...(c.lid ? [c.lid.material] : []),
+    ...(c.floor ? [c.floor.material] : []),
+    ...s.flatMap(sample => [sample.outer_material, sample.middle_material, sample.core_material])
+  ];
+
+  // Give the loaded file's unedited library materials their current tables
+  const applyLibraryMaterials = () => {
+    const relink = (material: Material) => MaterialLibrary.relink(material);
+    setContainer({
+      ...container,
+      fill_material: relink(container.fill_material),
+      wall_material: relink(container.wall_material),
+      lid: container.lid && { ...container.lid, material: relink(container.lid.material) },
+      floor: container.floor && { ...container.floor, material: relink(container.floor.material) }
+    });
+    setSamples(samples.map(s => ({
+      ...s,
+      outer_material: relink(s.outer_material),
+      middle_material: relink(s.middle_material),
+      core_material: relink(s.core_material)
+    })));
+    setConstantMaterials(false);
+  };
+
   const handleExportCSV = () => {
-    const headers = ['Time (s)', ...samples.map(s => s.name)].join(',');
+    const energyHeaders = ['Domain Energy (J)', 'Fill Energy (J)', 'Wall Energy (J)', 'Boundary Heat In (J)', 'Heat Generated (J)', 'Radiation Loss (J)', 'Evaporation Loss (J)', 'Balance Error (J)', 'Relative Error'];
+    const headers = ['Time (s)', 'Ambient (F)', 'Bath (F)', 'Heater Duty (%)', 'Fill k_eff (W/m-K)', ...samples.map(s => s.name), ...samples.map(s => `${s.name} Frozen (%)`), 'PCM Melted (%)', ...energyHeaders].join(',');
     const rows = graphData.map(pt => {
-      return [pt.time, ...samples.map(s => pt[s.name] || '')].join(',');
+      const energy: EnergyReport | undefined = pt.energy;
+      const energyCols = energy
+        ? [energy.domain_energy, energy.fill_energy, energy.wall_energy, energy.boundary_heat_in, energy.heat_generated, energy.radiation_loss, energy.evaporation_loss, energy.balance_error, energy.relative_error]
+        : energyHeaders.map(() => '');
+      const frozenCols = samples.map(s => pt.phase?.[`${s.name} frozen %`] ?? '');
+      return [pt.time, pt['Ambient'] ?? '', pt['Bath'] ?? '', pt.phase?.['Heater duty %'] ?? '', pt.fill?.mean_k ?? '', ...samples.map(s => pt[s.name] || ''), ...frozenCols, pt.phase?.['PCM melted %'] ?? '', ...energyCols].join(',');
     }).join('\n');
     
     const csvContent = `data:text/csv;charset=utf-8,${headers}\n${rows}`;
@@ -389,17 +591,149 @@ const App: React.FC = () => {
     setIsRunning(false);
     setSamples([]); 
     setGraphData([]); 
-    timeRef.current = 0;
     setElapsedTime(0);
     setGridData(null); 
     setLayoutWarning(null);
     setSimulationComplete(false);
     setConvergenceData({});
+    setEnergyReport(null);
+    setPcmMelted(null);
+    setBathReport(null);
+    setFillConductivity(null);
+    setMeshStudy(null);
+    setSteadyState(null);
+    setRzGridData(null);
+    setCoreGradient(null);
     setTimeout(() => {
         physicsRef.current.initialize(container, [], window.innerWidth - 600, window.innerHeight);
     }, 0);
   };
 
+  // Each mode has its own engine and clock, so switching starts a fresh run
+  const switchSimulationMode = (mode: SimulationMode) => {
+    setIsRunning(false);
+    setSimulationMode(mode);
+    setGraphData([]);
+    setElapsedTime(0);
+    setSimulationComplete(false);
+    setConvergenceData({});
+    setCoreGradient(null);
+    setPcmMelted(null);
+    setBathReport(null);
+    setFillConductivity(null);
+    setSteadyState(null);
+    setGridData(null);
+    physicsRef.current.initialize(container, samples, window.innerWidth - 600, window.innerHeight);
+  };
+
+  // Reruns the current setup on coarser and finer meshes, in the physics
+  // worker; a cancelled study keeps the previous report
+  const runMeshStudy = async () => {
+    setMeshStudyRunning(true);
+    setMeshStudyProgress(0);
+    try {
+      const levels = MeshConvergenceStudy.levelsAround(solverSettings.cells_per_inch ?? 5);
+      const report = await physicsRef.current.runMeshStudy(
+        container, samples, window.innerWidth - 600, window.innerHeight, solverSettings, meshStudyHours, levels,
+        setMeshStudyProgress
+      );
+      if (report) setMeshStudy(report);
+    } finally {
+      setMeshStudyRunning(false);
+    }
+  };
+
+  // Jumps the plan-view field to its equilibrium under the current ambient;
+  // a run started afterwards continues from it
+  const solveSteadyState = async () => {
+    setSteadySolving(true);
+    try {
+      const { report, grid } = await physicsRef.current.solveSteadyState();
+      setSteadyState(report);
+      if (grid) setGridData(grid);
+      setSamples(prev => prev.map(s =>
+        report.sample_temps[s.id] !== undefined ? { ...s, temperature: report.sample_temps[s.id] } : s
+      ));
+    } catch (err) {
+      alert(`Steady-state solve failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setSteadySolving(false);
+    }
+  };
+
+  // The PCM fill material is derived from its definition
+  const updatePCM = (pcm: PCMSettings) => {
+    setContainer({ ...container, pcm, fill_material: MaterialLibrary.createPCMMaterial(pcm) });
+  };
+
+  const updateWeather = (changes: Partial<WeatherSettings>) => {
+    setContainer({ ...container, weather: { ...container.weather!, ...changes } });
+  };
+
+  const handleImportWeather = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const records = WeatherModel.parse(file.name, event.target?.result as string);
+      if (records.length === 0) {
+        alert('No weather records found (expected an EPW file or a CSV with date/time and temperature columns)');
+        return;
+      }
+      setContainer({
+        ...container,
+        weather: {
+          enabled: true,
+          file_name: file.name,
+          start_time: WeatherModel.formatLocal(records[0].timestamp),
+          records,
+          solar_absorptance: container.weather?.solar_absorptance ?? 0.6
+        }
+      });
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const updateBath = (changes: Partial<BathSettings>) => {
+    const bath = container.bath ?? BathModel.getDefaultSettings(container.water_temperature ?? 70);
+    setContainer({ ...container, bath: { ...bath, ...changes } });
+  };
+
+  const updateSurfaceLosses = (changes: Partial<SurfaceLossSettings>) => {
+    // Each loss is switched on by itself the first time
+    const losses = container.surface_losses
+      ?? { ...SurfaceLossModel.getDefaultSettings(), radiation_enabled: false, evaporation_enabled: false };
+    setContainer({ ...container, surface_losses: { ...losses, ...changes } });
+  };
+
+  const updateAmbientSchedule = (changes: Partial<AmbientSchedule>) => {
+    const schedule = container.ambient_schedule ?? AmbientScheduleModel.getDefaultSchedule();
+    setContainer({ ...container, ambient_schedule: { ...schedule, ...changes } });
+  };
+
+  const updateKeyframe = (index: number, time_hours: number, temperature: number) => {
+    const keyframes = [...container.ambient_schedule!.keyframes];
+    keyframes[index] = { time_hours, temperature };
+    updateAmbientSchedule({ keyframes });
+  };
+
+  const handleImportAmbientCSV = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const keyframes = AmbientScheduleModel.parseCSV(event.target?.result as string);
+      if (keyframes.length === 0) {
+        alert('No timestamp,temperature rows found');
+        return;
+      }
+      updateAmbientSchedule({ mode: 'keyframes', keyframes });
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
   const updateSampleSize = (sample: Sample, newSize: SampleSize) => {
     const diameter = newSize === '2x4' ? 2 : 4;
     const radius = (diameter * PIXELS_PER_INCH) / 2;
@@ -489,6 +823,16 @@ const App: React.FC = () => {
               </div>
             )}
 
+            <div className="form-row">
+              <label>Depth (in)</label>
+              <input 
+                type="number" 
+                className="neumorphic-input"
+                value={Math.round(container.depth / PIXELS_PER_INCH)}
+                onChange={(e) => setContainer({ ...container, depth: Number(e.target.value) * PIXELS_PER_INCH })}
+              />
+            </div>
+
             <div className="form-row">
               <label>Fill Material</label>
               <select 
@@ -496,19 +840,99 @@ const App: React.FC = () => {
                 value={container.fill_type}
                 onChange={(e) => {
                   const val = e.target.value as any;
+                  if (val === 'PCM') {
+                    const pcm = container.pcm ?? MaterialLibrary.getDefaultPCMSettings();
+                    setContainer({ ...container, fill_type: val, pcm, fill_material: MaterialLibrary.createPCMMaterial(pcm) });
+                    return;
+                  }
                   const mat = MaterialLibrary.getMaterials()[val];
                   setContainer({ ...container, fill_type: val, fill_material: mat });
                 }}
               >
                 <option value="Phenolic Foam">Phenolic Foam</option>
                 <option value="Water">Water</option>
+                <option value="PCM">Phase-Change Material</option>
               </select>
             </div>
 
+            {/* PCM Definition - Only for PCM fill */}
+            {container.fill_type === 'PCM' && container.pcm && (
+              <>
+                <div className="form-row">
+                  <label>Melting Point (°F)</label>
+                  <input 
+                    type="number" step="0.5"
+                    className="neumorphic-input"
+                    value={container.pcm.melting_point_f}
+                    onChange={(e) => updatePCM({ ...container.pcm!, melting_point_f: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="form-row">
+                  <label>Melting Range (°F)</label>
+                  <input 
+                    type="number" step="0.5" min="0.1"
+                    className="neumorphic-input"
+                    value={container.pcm.melting_range_f}
+                    onChange={(e) => updatePCM({ ...container.pcm!, melting_range_f: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="form-row">
+                  <label>Latent Heat (kJ/kg)</label>
+                  <input 
+                    type="number" step="5" min="0"
+                    className="neumorphic-input"
+                    value={container.pcm.latent_heat_kj_per_kg}
+                    onChange={(e) => updatePCM({ ...container.pcm!, latent_heat_kj_per_kg: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="form-row">
+                  <label>Initial Temp (°F)</label>
+                  <input 
+                    type="number" 
+                    className="neumorphic-input"
+                    value={container.pcm.initial_temperature_f}
+                    onChange={(e) => updatePCM({ ...container.pcm!, initial_temperature_f: Number(e.target.value) })}
+                  />
+                </div>
+                {(['solid', 'liquid'] as const).map(phase => (
+                  <div key={phase} className="property-details mt-2">
+                    <h4 className="subsection-title">{phase === 'solid' ? 'Solid' : 'Liquid'} PCM</h4>
+                    <div className="form-row">
+                      <label>Conductivity (W/m·K)</label>
+                      <input 
+                        type="number" step="0.01"
+                        className="neumorphic-input"
+                        value={container.pcm![phase].thermal_conductivity}
+                        onChange={(e) => updatePCM({ ...container.pcm!, [phase]: { ...container.pcm![phase], thermal_conductivity: Number(e.target.value) } })}
+                      />
+                    </div>
+                    <div className="form-row">
+                      <label>Specific Heat (J/kg·K)</label>
+                      <input 
+                        type="number" step="10"
+                        className="neumorphic-input"
+                        value={container.pcm![phase].specific_heat}
+                        onChange={(e) => updatePCM({ ...container.pcm!, [phase]: { ...container.pcm![phase], specific_heat: Number(e.target.value) } })}
+                      />
+                    </div>
+                    <div className="form-row">
+                      <label>Density (kg/m³)</label>
+                      <input 
+                        type="number" step="10"
+                        className="neumorphic-input"
+                        value={container.pcm![phase].density}
+                        onChange={(e) => updatePCM({ ...container.pcm!, [phase]: { ...container.pcm![phase], density: Number(e.target.value) } })}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+
             {/* Controlled Temperature Field - Only for Water */}
             {container.fill_type === 'Water' && (
               <div className="form-row">
-                <label>Controlled Temp (°F)</label>
+                <label>{container.bath && container.bath.mode !== 'fixed' ? 'Starting Water Temp (°F)' : 'Controlled Temp (°F)'}</label>
                 <input 
                   type="number" 
                   className="neumorphic-input"
@@ -518,9 +942,118 @@ const App: React.FC = () => {
               </div>
             )}
 
+            {container.fill_type === 'Water' && (
+              <div className="form-row">
+                <label>Bath Control</label>
+                <select 
+                  className="neumorphic-input"
+                  value={container.bath?.mode ?? 'fixed'}
+                  onChange={(e) => updateBath({ mode: e.target.value as BathSettings['mode'] })}
+                >
+                  <option value="fixed">Ideal (fixed temperature)</option>
+                  <option value="thermostat">Thermostat + Heater</option>
+                  <option value="passive">Passive (natural convection)</option>
+                </select>
+              </div>
+            )}
+
+            {container.fill_type === 'Water' && container.bath?.mode === 'thermostat' && (
+              <>
+                {simulationMode === 'axisymmetric' && (
+                  <p className="text-xs text-gray-500 mb-2">The r-z view holds the bath at its starting temperature</p>
+                )}
+                <div className="form-row">
+                  <label>Setpoint (°F)</label>
+                  <input 
+                    type="number" 
+                    className="neumorphic-input"
+                    value={container.bath.setpoint_f}
+                    onChange={(e) => updateBath({ setpoint_f: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="form-row">
+                  <label>Heater (W)</label>
+                  <input 
+                    type="number" 
+                    min="0"
+                    className="neumorphic-input"
+                    value={container.bath.heater_w}
+                    onChange={(e) => updateBath({ heater_w: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="form-row">
+                  <label>Chiller (W, 0 = none)</label>
+                  <input 
+                    type="number" 
+                    min="0"
+                    className="neumorphic-input"
+                    value={container.bath.chiller_w}
+                    onChange={(e) => updateBath({ chiller_w: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="form-row">
+                  <label>Thermostat</label>
+                  <select 
+                    className="neumorphic-input"
+                    value={container.bath.control}
+                    onChange={(e) => updateBath({ control: e.target.value as BathSettings['control'] })}
+                  >
+                    <option value="on_off">On/Off</option>
+                    <option value="pid">PID</option>
+                  </select>
+                </div>
+                {container.bath.control === 'on_off' ? (
+                  <div className="form-row">
+                    <label>Deadband (°F)</label>
+                    <input 
+                      type="number" 
+                      step="0.5"
+                      min="0"
+                      className="neumorphic-input"
+                      value={container.bath.deadband_f}
+                      onChange={(e) => updateBath({ deadband_f: Number(e.target.value) })}
+                    />
+                  </div>
+                ) : (
+                  <>
+                    <div className="form-row">
+                      <label>Kp (per °F)</label>
+                      <input 
+                        type="number" 
+                        step="0.05"
+                        className="neumorphic-input"
+                        value={container.bath.pid_kp}
+                        onChange={(e) => updateBath({ pid_kp: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="form-row">
+                      <label>Ki (per °F·min)</label>
+                      <input 
+                        type="number" 
+                        step="0.005"
+                        className="neumorphic-input"
+                        value={container.bath.pid_ki}
+                        onChange={(e) => updateBath({ pid_ki: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="form-row">
+                      <label>Kd (min/°F)</label>
+                      <input 
+                        type="number" 
+                        step="0.05"
+                        className="neumorphic-input"
+                        value={container.bath.pid_kd}
+                        onChange={(e) => updateBath({ pid_kd: Number(e.target.value) })}
+                      />
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+
             {/* Ambient Temperature Field - Always Visible */}
             <div className="form-row">
-              <label>Ambient Temp (°F)</label>
+              <label>{container.ambient_schedule?.mode === 'sinusoidal' ? 'Mean Ambient (°F)' : 'Ambient Temp (°F)'}</label>
               <input 
                 type="number" 
                 className="neumorphic-input"
@@ -529,44 +1062,402 @@ const App: React.FC = () => {
               />
             </div>
 
-            <div className="property-details mt-4">
-               <div className="form-row">
-                 <label>Conductivity (W/m·K)</label>
-                 <input 
-                   type="number" step="0.01"
-                   className="neumorphic-input"
-                   value={container.fill_material.thermal_conductivity}
-                   onChange={(e) => {
-                     const newMat = { ...container.fill_material, thermal_conductivity: Number(e.target.value) };
-                     setContainer({ ...container, fill_material: newMat });
-                   }}
-                 />
-               </div>
-               <div className="form-row">
-                 <label>Specific Heat (J/kg·K)</label>
-                 <input 
-                   type="number" step="10"
-                   className="neumorphic-input"
-                   value={container.fill_material.specific_heat}
-                   onChange={(e) => {
-                     const newMat = { ...container.fill_material, specific_heat: Number(e.target.value) };
-                     setContainer({ ...container, fill_material: newMat });
-                   }}
-                 />
-               </div>
-               <div className="form-row">
-                 <label>Density (kg/m³)</label>
-                 <input 
-                   type="number" step="10"
-                   className="neumorphic-input"
-                   value={container.fill_material.density}
-                   onChange={(e) => {
-                     const newMat = { ...container.fill_material, density: Number(e.target.value) };
-                     setContainer({ ...container, fill_material: newMat });
-                   }}
-                 />
-               </div>
+            {/* Weather file: ambient, wind films and solar load follow hourly records */}
+            <div className="form-row">
+              <label>Weather File</label>
+              <label className="tool-btn" title="EPW, or CSV with date/time, temperature, wind and solar columns">
+                <input type="file" hidden onChange={handleImportWeather} accept=".epw,.csv" />
+                {container.weather ? container.weather.file_name : 'Import EPW / CSV'}
+              </label>
+            </div>
+
+            {container.weather && (
+              <>
+                <p className="text-xs text-gray-500 mb-2">
+                  {container.weather.records.length} hourly records, {new Date(container.weather.records[0].timestamp).toLocaleDateString()} to {new Date(container.weather.records[container.weather.records.length - 1].timestamp).toLocaleDateString()}
+                </p>
+                <div className="form-row">
+                  <label>Use Weather</label>
+                  <select 
+                    className="neumorphic-input"
+                    value={container.weather.enabled ? 'on' : 'off'}
+                    onChange={(e) => updateWeather({ enabled: e.target.value === 'on' })}
+                  >
+                    <option value="on">On</option>
+                    <option value="off">Off</option>
+                  </select>
+                </div>
+                {container.weather.enabled && (
+                  <>
+                    <div className="form-row">
+                      <label>Start</label>
+                      <input 
+                        type="datetime-local" 
+                        className="neumorphic-input"
+                        value={container.weather.start_time}
+                        onChange={(e) => updateWeather({ start_time: e.target.value })}
+                      />
+                    </div>
+                    <div className="form-row">
+                      <label>Lid Solar Absorptance</label>
+                      <input 
+                        type="number" 
+                        step="0.05"
+                        min="0"
+                        max="1"
+                        className="neumorphic-input"
+                        value={container.weather.solar_absorptance}
+                        onChange={(e) => updateWeather({ solar_absorptance: Number(e.target.value) })}
+                      />
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+
+            {!weatherActive && (
+              <div className="form-row">
+                <label>Ambient Schedule</label>
+                <select 
+                  className="neumorphic-input"
+                  value={container.ambient_schedule?.mode ?? 'constant'}
+                  onChange={(e) => updateAmbientSchedule({ mode: e.target.value as AmbientSchedule['mode'] })}
+                >
+                  <option value="constant">Constant</option>
+                  <option value="sinusoidal">Day/Night Cycle</option>
+                  <option value="keyframes">Keyframes</option>
+                </select>
+              </div>
+            )}
+
+            {!weatherActive && container.ambient_schedule?.mode === 'sinusoidal' && (
+              <>
+                <div className="form-row">
+                  <label>Swing Amplitude (°F)</label>
+                  <input 
+                    type="number" 
+                    className="neumorphic-input"
+                    value={container.ambient_schedule.amplitude_f}
+                    onChange={(e) => updateAmbientSchedule({ amplitude_f: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="form-row">
+                  <label>Period (hours)</label>
+                  <input 
+                    type="number" 
+                    min="0.1"
+                    className="neumorphic-input"
+                    value={container.ambient_schedule.period_hours}
+                    onChange={(e) => updateAmbientSchedule({ period_hours: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="form-row">
+                  <label>Warmest At (hours)</label>
+                  <input 
+                    type="number" 
+                    className="neumorphic-input"
+                    value={container.ambient_schedule.peak_hours}
+                    onChange={(e) => updateAmbientSchedule({ peak_hours: Number(e.target.value) })}
+                  />
+                </div>
+              </>
+            )}
+
+            {!weatherActive && container.ambient_schedule?.mode === 'keyframes' && (
+              <>
+                {container.ambient_schedule.keyframes.map((frame, index) => (
+                  <div className="form-row" key={index}>
+                    <label>Hour / °F</label>
+                    <div style={{ display: 'flex', gap: '4px' }}>
+                      <input 
+                        type="number" 
+                        className="neumorphic-input"
+                        value={frame.time_hours}
+                        onChange={(e) => updateKeyframe(index, Number(e.target.value), frame.temperature)}
+                      />
+                      <input 
+                        type="number" 
+                        className="neumorphic-input"
+                        value={frame.temperature}
+                        onChange={(e) => updateKeyframe(index, frame.time_hours, Number(e.target.value))}
+                      />
+                      <button 
+                        className="tool-btn"
+                        title="Remove keyframe"
+                        onClick={() => updateAmbientSchedule({ keyframes: container.ambient_schedule!.keyframes.filter((_, i) => i !== index) })}
+                      >×</button>
+                    </div>
+                  </div>
+                ))}
+                <div className="form-row">
+                  <button 
+                    className="tool-btn"
+                    onClick={() => {
+                      const frames = container.ambient_schedule!.keyframes;
+                      const last = frames[frames.length - 1];
+                      updateAmbientSchedule({ keyframes: [...frames, { time_hours: last ? last.time_hours + 1 : 0, temperature: last ? last.temperature : container.ambient_temperature }] });
+                    }}
+                  >Add Keyframe</button>
+                  <label className="tool-btn" title="timestamp,temperature rows (hours or dates, °F)">
+                    <input type="file" hidden onChange={handleImportAmbientCSV} accept=".csv,.txt" />
+                    Import CSV
+                  </label>
+                </div>
+              </>
+            )}
+
+            <div className="form-row">
+              <label>Wall Material</label>
+              <select 
+                className="neumorphic-input"
+                value={container.wall_material.name}
+                onChange={(e) => setContainer({ ...container, wall_material: MaterialLibrary.getMaterials()[e.target.value] })}
+              >
+                {['Plastic (PVC)', 'Plywood', 'Steel', 'Aluminum'].map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-row">
+              <label>Wall Thickness (in)</label>
+              <input 
+                type="number" step="0.25" min="0"
+                className="neumorphic-input"
+                value={container.wall_thickness_in ?? 0}
+                onChange={(e) => setContainer({ ...container, wall_thickness_in: Math.max(0, Number(e.target.value)) })}
+              />
+            </div>
+
+            {(['lid', 'floor'] as const).map(side => {
+              const panel: ContainerPanel | undefined = container[side];
+              const title = side === 'lid' ? 'Lid' : 'Floor';
+              return (
+                <React.Fragment key={side}>
+                  <div className="form-row">
+                    <label>{title}</label>
+                    <select 
+                      className="neumorphic-input"
+                      value={panel?.material.name ?? 'None'}
+                      onChange={(e) => setContainer({
+                        ...container,
+                        [side]: e.target.value === 'None'
+                          ? undefined
+                          : { thickness_in: panel?.thickness_in ?? 0.5, material: MaterialLibrary.getMaterials()[e.target.value] }
+                      })}
+                    >
+                      <option value="None">{side === 'lid' ? 'None (open top)' : 'Not modelled'}</option>
+                      {['Plastic (PVC)', 'Plywood', 'Phenolic Foam', 'Steel', 'Aluminum'].map(name => (
+                        <option key={name} value={name}>{name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {panel && (
+                    <div className="form-row">
+                      <label>{title} Thickness (in)</label>
+                      <input 
+                        type="number" step="0.25" min="0"
+                        className="neumorphic-input"
+                        value={panel.thickness_in}
+                        onChange={(e) => setContainer({ ...container, [side]: { ...panel, thickness_in: Math.max(0, Number(e.target.value)) } })}
+                      />
+                    </div>
+                  )}
+                </React.Fragment>
+              );
+            })}
+
+            <h4 className="subsection-title mt-4">Outer Surfaces</h4>
+
+            <div className="form-row">
+              <label>Boundary</label>
+              <select 
+                className="neumorphic-input"
+                value={container.convection?.enabled ? 'convective' : 'fixed'}
+                onChange={(e) => {
+                  const convection = container.convection ?? ConvectionLibrary.getDefaultSettings();
+                  setContainer({ ...container, convection: { ...convection, enabled: e.target.value === 'convective' } });
+                }}
+              >
+                <option value="convective">Convective (h)</option>
+                <option value="fixed">Fixed Ambient Air</option>
+              </select>
+            </div>
+
+            {container.convection?.enabled && (
+              <>
+                <div className="form-row">
+                  <label>Air Condition</label>
+                  <select 
+                    className="neumorphic-input"
+                    value={container.convection.preset}
+                    onChange={(e) => {
+                      const preset = ConvectionLibrary.getPresets()[e.target.value];
+                      setContainer({
+                        ...container,
+                        convection: { ...container.convection!, preset: e.target.value, ...(preset ?? {}) }
+                      });
+                    }}
+                  >
+                    {Object.keys(ConvectionLibrary.getPresets()).map(name => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                    <option value="Custom">Custom</option>
+                  </select>
+                </div>
+                <div className="form-row">
+                  <label>Wall h (W/m²·K)</label>
+                  <input 
+                    type="number" step="1" min="0"
+                    className="neumorphic-input"
+                    value={container.convection.wall_h}
+                    onChange={(e) => setContainer({
+                      ...container,
+                      convection: { ...container.convection!, preset: 'Custom', wall_h: Number(e.target.value) }
+                    })}
+                  />
+                </div>
+                <div className="form-row">
+                  <label>Top h (W/m²·K)</label>
+                  <input 
+                    type="number" step="1" min="0"
+                    className="neumorphic-input"
+                    value={container.convection.top_h}
+                    onChange={(e) => setContainer({
+                      ...container,
+                      convection: { ...container.convection!, preset: 'Custom', top_h: Number(e.target.value) }
+                    })}
+                  />
+                </div>
+              </>
+            )}
+
+            <h4 className="subsection-title mt-4">Open Top Surface</h4>
+
+            <div className="form-row">
+              <label>Radiation</label>
+              <select 
+                className="neumorphic-input"
+                value={container.surface_losses?.radiation_enabled ? 'on' : 'off'}
+                onChange={(e) => updateSurfaceLosses({ radiation_enabled: e.target.value === 'on' })}
+              >
+                <option value="off">Off</option>
+                <option value="on">On</option>
+              </select>
+            </div>
+
+            {container.surface_losses?.radiation_enabled && (
+              <>
+                <div className="form-row">
+                  <label>Emissivity</label>
+                  <input 
+                    type="number" step="0.05" min="0" max="1"
+                    className="neumorphic-input"
+                    value={container.surface_losses.emissivity}
+                    onChange={(e) => updateSurfaceLosses({ emissivity: Math.min(1, Math.max(0, Number(e.target.value))) })}
+                  />
+                </div>
+                <div className="form-row">
+                  <label>Radiates To</label>
+                  <select 
+                    className="neumorphic-input"
+                    value={container.surface_losses.sky_follows_ambient ? 'ambient' : 'sky'}
+                    onChange={(e) => updateSurfaceLosses({ sky_follows_ambient: e.target.value === 'ambient' })}
+                  >
+                    <option value="ambient">Surroundings at ambient</option>
+                    <option value="sky">Sky temperature</option>
+                  </select>
+                </div>
+                {!container.surface_losses.sky_follows_ambient && (
+                  <div className="form-row">
+                    <label>Sky Temp (°F)</label>
+                    <input 
+                      type="number" step="1"
+                      className="neumorphic-input"
+                      value={container.surface_losses.sky_temperature_f}
+                      onChange={(e) => updateSurfaceLosses({ sky_temperature_f: Number(e.target.value) })}
+                    />
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="form-row">
+              <label>Evaporation</label>
+              <select 
+                className="neumorphic-input"
+                value={container.surface_losses?.evaporation_enabled ? 'on' : 'off'}
+                onChange={(e) => updateSurfaceLosses({ evaporation_enabled: e.target.value === 'on' })}
+              >
+                <option value="off">Off</option>
+                <option value="on">On (open water)</option>
+              </select>
             </div>
+
+            {container.surface_losses?.evaporation_enabled && (
+              <>
+                <div className="form-row">
+                  <label>Relative Humidity (%)</label>
+                  <input 
+                    type="number" step="5" min="0" max="100"
+                    className="neumorphic-input"
+                    value={container.surface_losses.relative_humidity}
+                    onChange={(e) => updateSurfaceLosses({ relative_humidity: Math.min(100, Math.max(0, Number(e.target.value))) })}
+                  />
+                </div>
+                <div className="form-row">
+                  <label>Air Speed (m/s)</label>
+                  <input 
+                    type="number" step="0.1" min="0"
+                    className="neumorphic-input"
+                    value={container.surface_losses.air_speed_ms}
+                    onChange={(e) => updateSurfaceLosses({ air_speed_ms: Math.max(0, Number(e.target.value)) })}
+                  />
+                </div>
+              </>
+            )}
+
+            {/* Editing a value replaces the material's temperature table for it */}
+            {container.fill_type !== 'PCM' && (
+              <div className="property-details mt-4">
+                 <div className="form-row">
+                   <label>Conductivity (W/m·K)</label>
+                   <input 
+                     type="number" step="0.01"
+                     className="neumorphic-input"
+                     value={container.fill_material.thermal_conductivity}
+                     onChange={(e) => {
+                       const newMat = { ...container.fill_material, thermal_conductivity: Number(e.target.value), conductivity_table: undefined };
+                       setContainer({ ...container, fill_material: newMat });
+                     }}
+                   />
+                 </div>
+                 <div className="form-row">
+                   <label>Specific Heat (J/kg·K)</label>
+                   <input 
+                     type="number" step="10"
+                     className="neumorphic-input"
+                     value={container.fill_material.specific_heat}
+                     onChange={(e) => {
+                       const newMat = { ...container.fill_material, specific_heat: Number(e.target.value), specific_heat_table: undefined };
+                       setContainer({ ...container, fill_material: newMat });
+                     }}
+                   />
+                 </div>
+                 <div className="form-row">
+                   <label>Density (kg/m³)</label>
+                   <input 
+                     type="number" step="10"
+                     className="neumorphic-input"
+                     value={container.fill_material.density}
+                     onChange={(e) => {
+                       const newMat = { ...container.fill_material, density: Number(e.target.value), density_table: undefined };
+                       setContainer({ ...container, fill_material: newMat });
+                     }}
+                   />
+                 </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -627,6 +1518,129 @@ const App: React.FC = () => {
                 }}
               />
             </div>
+
+            <h4 className="subsection-title mt-4">Contact Resistance (m²·K/W)</h4>
+            <p className="text-xs text-gray-500 mb-2">0 = perfect contact; a 1 mm air gap is about 0.04</p>
+
+            <div className="form-row">
+              <label>Core ↔ Plastic</label>
+              <input 
+                type="number" step="0.001" min="0"
+                className="neumorphic-input"
+                value={(selectedObject as Sample).contact_resistance?.core_middle ?? 0}
+                onChange={(e) => {
+                  const sample = selectedObject as Sample;
+                  const contact = sample.contact_resistance ?? { core_middle: 0, middle_outer: 0, outer_fill: 0 };
+                  const updated = { ...sample, contact_resistance: { ...contact, core_middle: Number(e.target.value) } };
+                  setSamples(samples.map(s => s.id === updated.id ? updated : s));
+                }}
+              />
+            </div>
+
+            <div className="form-row">
+              <label>Plastic ↔ Aluminum</label>
+              <input 
+                type="number" step="0.001" min="0"
+                className="neumorphic-input"
+                value={(selectedObject as Sample).contact_resistance?.middle_outer ?? 0}
+                onChange={(e) => {
+                  const sample = selectedObject as Sample;
+                  const contact = sample.contact_resistance ?? { core_middle: 0, middle_outer: 0, outer_fill: 0 };
+                  const updated = { ...sample, contact_resistance: { ...contact, middle_outer: Number(e.target.value) } };
+                  setSamples(samples.map(s => s.id === updated.id ? updated : s));
+                }}
+              />
+            </div>
+
+            <div className="form-row">
+              <label>Aluminum ↔ Fill</label>
+              <input 
+                type="number" step="0.001" min="0"
+                className="neumorphic-input"
+                value={(selectedObject as Sample).contact_resistance?.outer_fill ?? 0}
+                onChange={(e) => {
+                  const sample = selectedObject as Sample;
+                  const contact = sample.contact_resistance ?? { core_middle: 0, middle_outer: 0, outer_fill: 0 };
+                  const updated = { ...sample, contact_resistance: { ...contact, outer_fill: Number(e.target.value) } };
+                  setSamples(samples.map(s => s.id === updated.id ? updated : s));
+                }}
+              />
+            </div>
+
+            <h4 className="subsection-title mt-4">Hydration Heat</h4>
+
+            <div className="form-row">
+              <label>Core Heat Source</label>
+              <select 
+                className="neumorphic-input"
+                value={(selectedObject as Sample).hydration?.enabled ? 'hydrating' : 'passive'}
+                onChange={(e) => {
+                  const hydration = (selectedObject as Sample).hydration ?? HydrationModel.getDefaultSettings();
+                  const updated = { ...selectedObject, hydration: { ...hydration, enabled: e.target.value === 'hydrating' } } as Sample;
+                  setSamples(samples.map(s => s.id === updated.id ? updated : s));
+                }}
+              >
+                <option value="passive">None (Passive Cooling)</option>
+                <option value="hydrating">Cement Hydration</option>
+              </select>
+            </div>
+
+            {(selectedObject as Sample).hydration?.enabled && (
+              <>
+                <div className="form-row">
+                  <label>Total Heat (kJ/kg)</label>
+                  <input 
+                    type="number" step="1" min="0"
+                    className="neumorphic-input"
+                    value={(selectedObject as Sample).hydration!.total_heat_kj_per_kg}
+                    onChange={(e) => {
+                      const sample = selectedObject as Sample;
+                      const updated = { ...sample, hydration: { ...sample.hydration!, total_heat_kj_per_kg: Number(e.target.value) } };
+                      setSamples(samples.map(s => s.id === updated.id ? updated : s));
+                    }}
+                  />
+                </div>
+                <div className="form-row">
+                  <label>Time Param τ (h)</label>
+                  <input 
+                    type="number" step="0.5" min="0"
+                    className="neumorphic-input"
+                    value={(selectedObject as Sample).hydration!.tau_hours}
+                    onChange={(e) => {
+                      const sample = selectedObject as Sample;
+                      const updated = { ...sample, hydration: { ...sample.hydration!, tau_hours: Number(e.target.value) } };
+                      setSamples(samples.map(s => s.id === updated.id ? updated : s));
+                    }}
+                  />
+                </div>
+                <div className="form-row">
+                  <label>Shape Param β</label>
+                  <input 
+                    type="number" step="0.05" min="0"
+                    className="neumorphic-input"
+                    value={(selectedObject as Sample).hydration!.beta}
+                    onChange={(e) => {
+                      const sample = selectedObject as Sample;
+                      const updated = { ...sample, hydration: { ...sample.hydration!, beta: Number(e.target.value) } };
+                      setSamples(samples.map(s => s.id === updated.id ? updated : s));
+                    }}
+                  />
+                </div>
+                <div className="form-row">
+                  <label>Activation Energy (kJ/mol)</label>
+                  <input 
+                    type="number" step="1" min="0"
+                    className="neumorphic-input"
+                    value={(selectedObject as Sample).hydration!.activation_energy_kj_per_mol}
+                    onChange={(e) => {
+                      const sample = selectedObject as Sample;
+                      const updated = { ...sample, hydration: { ...sample.hydration!, activation_energy_kj_per_mol: Number(e.target.value) } };
+                      setSamples(samples.map(s => s.id === updated.id ? updated : s));
+                    }}
+                  />
+                </div>
+              </>
+            )}
           </div>
         )}
 
@@ -675,6 +1689,44 @@ const App: React.FC = () => {
 
           <div className="divider"></div>
 
+          <div className="toggle-group">
+            <button 
+              className={`toggle-btn ${simulationMode === 'plan' ? 'active' : ''}`}
+              onClick={() => switchSimulationMode('plan')}
+            >
+              Plan
+            </button>
+            <button 
+              className={`toggle-btn ${simulationMode === 'axisymmetric' ? 'active' : ''}`}
+              onClick={() => switchSimulationMode('axisymmetric')}
+              title="Axisymmetric radius × height model of one sample"
+            >
+              R–Z
+            </button>
+            <button 
+              className={`toggle-btn ${simulationMode === 'voxel' ? 'active' : ''}`}
+              onClick={() => switchSimulationMode('voxel')}
+              title="Full 3D voxel model using the container depth"
+            >
+              3D
+            </button>
+          </div>
+          {simulationMode === 'axisymmetric' && (
+            <select 
+              className="neumorphic-input small-select"
+              value={rzSample?.id ?? ''}
+              onChange={(e) => setRzSampleId(e.target.value)}
+              style={{ width: '120px' }}
+            >
+              {samples.length === 0 && <option value="">No samples</option>}
+              {samples.map(s => (
+                <option key={s.id} value={s.id}>{s.name}</option>
+              ))}
+            </select>
+          )}
+
+          <div className="divider"></div>
+
           <div className="layout-controls">
             <div className="toggle-group" style={{ marginBottom: '8px' }}>
               <button 
@@ -722,6 +1774,60 @@ const App: React.FC = () => {
             />
             <span className="text-xs w-10 text-right">{simSpeed}x</span>
           </div>
+
+          <div className="divider"></div>
+
+          <div className="solver-control flex items-center gap-2">
+            <span className="text-xs font-bold text-gray-600">Solver:</span>
+            <select 
+              className="neumorphic-input small-select"
+              value={solverSettings.mode}
+              onChange={(e) => setSolverSettings({ ...solverSettings, mode: e.target.value as SolverSettings['mode'] })}
+            >
+              <option value="explicit">Explicit</option>
+              <option value="adi">Implicit (ADI)</option>
+            </select>
+            {solverSettings.mode === 'adi' && (
+              <>
+                <input 
+                  type="number" min="0.1" step="0.5"
+                  className="neumorphic-input small-select"
+                  value={solverSettings.time_step_min}
+                  onChange={(e) => setSolverSettings({ ...solverSettings, time_step_min: Math.max(0.1, Number(e.target.value)) })}
+                  style={{ width: '60px' }}
+                  title="Implicit time step (minutes)"
+                />
+                <span className="text-xs">min</span>
+              </>
+            )}
+            {simulationMode === 'plan' && (
+              <>
+                <span className="text-xs font-bold text-gray-600">Mesh:</span>
+                <select 
+                  className="neumorphic-input small-select"
+                  value={solverSettings.cells_per_inch ?? 5}
+                  onChange={(e) => setSolverSettings({ ...solverSettings, cells_per_inch: Number(e.target.value) })}
+                  title="Plan-view cells per inch"
+                >
+                  {[2, 4, 5, 8, 10].map(n => (
+                    <option key={n} value={n}>{n}/in</option>
+                  ))}
+                </select>
+                <span className="text-xs font-bold text-gray-600">Sleep:</span>
+                <select
+                  className="neumorphic-input small-select"
+                  value={solverSettings.sleep_rate_f_per_hour ?? 0}
+                  onChange={(e) => setSolverSettings({ ...solverSettings, sleep_rate_f_per_hour: Number(e.target.value) || undefined })}
+                  title="Blocks of cells changing more slowly than this stop being stepped until their surroundings change"
+                >
+                  <option value={0}>Off</option>
+                  {[0.01, 0.1, 1].map(r => (
+                    <option key={r} value={r}>{r}°F/h</option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
         </div>
 
         {layoutWarning && (
@@ -732,30 +1838,72 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {constantMaterials && (
+          <div className="absolute top-32 left-1/2 transform -translate-x-1/2 z-20 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-2 rounded-lg shadow-lg flex items-center gap-2 animate-fade-in">
+            <span className="text-sm font-medium">
+              This file runs with constant material properties, as saved. Library Water and Phenolic Foam now vary with temperature and water freezes.
+            </span>
+            <button onClick={applyLibraryMaterials} className="ml-2 text-sm font-bold underline">Use library properties</button>
+            <button onClick={() => setConstantMaterials(false)} className="ml-2 text-amber-400 hover:text-amber-800">×</button>
+          </div>
+        )}
+
         <div className="canvas-wrapper" style={{ overflow: 'visible', position: 'relative', width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
           <div className="zoom-controls absolute bottom-4 right-4 flex gap-2 z-10">
              <button className="tool-btn bg-white" onClick={(e) => { e.stopPropagation(); setAutoZoom(false); setZoom(z => Math.min(3, z + 0.1)); }}><Icons.ZoomIn /></button>
              <button className="tool-btn bg-white" onClick={(e) => { e.stopPropagation(); setAutoZoom(false); setZoom(z => Math.max(0.1, z - 0.1)); }}><Icons.ZoomOut /></button>
              <button className="tool-btn bg-white" onClick={(e) => { e.stopPropagation(); setAutoZoom(true); }} title="Reset Zoom">⟲</button>
           </div>
+
+          {simulationMode === 'voxel' && (
+            <div 
+              className="depth-slice-control absolute bottom-4 left-4 z-10 flex items-center gap-2 bg-white px-3 py-2 rounded-lg shadow"
+              onMouseDown={(e) => e.stopPropagation()}
+            >
+              <span className="text-xs font-bold text-gray-600">Slice depth:</span>
+              <input 
+                type="range" min="0" max={container.depth / PIXELS_PER_INCH} step="0.25"
+                value={sliceDepthIn}
+                onChange={(e) => setSliceDepthIn(Number(e.target.value))}
+                className="w-32"
+              />
+              <span className="text-xs w-12 text-right">{sliceDepthIn.toFixed(2)}"</span>
+              {VoxelEngine.thinnestLayerIn(samples) < VoxelEngine.getVoxelSizeIn() && (
+                <span className="text-xs text-gray-500">
+                  {VoxelEngine.getVoxelSizeIn()}" voxels only partly resolve thinner mold layers; use R–Z for them
+                </span>
+              )}
+            </div>
+          )}
           
           <div style={{ transform: `scale(${zoom}) translate(${pan.x}px, ${pan.y}px)`, transformOrigin: 'center center', transition: 'transform 0.1s' }}>
-            <Canvas 
-              container={container}
-              samples={samples}
-              tool={tool}
-              selectedId={selectedId}
-              showHeatmap={showHeatmap}
-              showMeasurements={showMeasurements}
-              gridData={gridData}
-              zoom={zoom}
-              onContainerUpdate={setContainer}
-              onSampleUpdate={(updated) => setSamples(samples.map(s => s.id === updated.id ? updated : s))}
-              onSelect={(id) => {
-                if (!isDragging) setSelectedId(id);
-              }}
-              onAddSample={() => {}}
-            />
+            {simulationMode === 'axisymmetric' ? (
+              <SideElevationCanvas 
+                gridData={rzGridData}
+                layout={rzLayout}
+                sampleName={rzSample?.name ?? 'Add a sample to study'}
+                frozenFraction={rzSample?.frozen_fraction ?? 0}
+                lid={container.lid}
+                floor={container.floor}
+              />
+            ) : (
+              <Canvas 
+                container={container}
+                samples={samples}
+                tool={tool}
+                selectedId={selectedId}
+                showHeatmap={showHeatmap}
+                showMeasurements={showMeasurements}
+                gridData={gridData}
+                zoom={zoom}
+                onContainerUpdate={setContainer}
+                onSampleUpdate={(updated) => setSamples(samples.map(s => s.id === updated.id ? updated : s))}
+                onSelect={(id) => {
+                  if (!isDragging) setSelectedId(id);
+                }}
+                onAddSample={() => {}}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -794,9 +1942,186 @@ const App: React.FC = () => {
         )}
         
         <div className="chart-container" style={{ height: simulationComplete ? '400px' : '250px' }}>
-          <TemperatureGraph data={graphData} />
+          <TemperatureGraph data={graphData} startTime={weatherActive ? WeatherModel.startTimestamp(container.weather!) : undefined} estimate={estimateCurves} />
         </div>
 
+        {simulationMode === 'axisymmetric' && coreGradient && (
+          <div className="core-gradient-report mt-4">
+            <h3 className="text-sm font-bold text-gray-700 mb-2">Core Gradient ({rzSample?.name})</h3>
+            <div className="report-list text-xs">
+              <div className="report-item">Top inch: {coreGradient.top.toFixed(1)}°F</div>
+              <div className="report-item">Bottom inch: {coreGradient.bottom.toFixed(1)}°F</div>
+              <div className="report-item">Top-to-bottom difference: {(coreGradient.bottom - coreGradient.top).toFixed(1)}°F</div>
+            </div>
+          </div>
+        )}
+
+        {container.fill_type === 'PCM' && pcmMelted !== null && (
+          <div className="pcm-report mt-4">
+            <h3 className="text-sm font-bold text-gray-700 mb-2">PCM Fill</h3>
+            <div className="report-list text-xs">
+              <div className="report-item">Melted: {(pcmMelted * 100).toFixed(1)}%</div>
+              <div className="report-item">Solid: {((1 - pcmMelted) * 100).toFixed(1)}%</div>
+            </div>
+          </div>
+        )}
+
+        {container.fill_type === 'Water' && bathReport && (
+          <div className="bath-report mt-4">
+            <h3 className="text-sm font-bold text-gray-700 mb-2">Water Bath</h3>
+            <div className="report-list text-xs">
+              <div className="report-item">Bath: {bathReport.temperature.toFixed(1)}°F</div>
+              <div className="report-item">Heater duty: {(heaterDuty * 100).toFixed(0)}%</div>
+              <div className="report-item">Heater energy: {(bathReport.heater_energy / 3.6e6).toFixed(3)} kWh</div>
+              {bathReport.chiller_energy > 0 && (
+                <div className="report-item">Chiller energy: {(bathReport.chiller_energy / 3.6e6).toFixed(3)} kWh</div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {fillConductivity && (
+          <div className="fill-report mt-4">
+            <h3 className="text-sm font-bold text-gray-700 mb-2">Fill Conductivity</h3>
+            <div className="report-list text-xs">
+              <div className="report-item">Effective k (mean): {fillConductivity.mean_k.toFixed(3)} W/(m·K)</div>
+              <div className="report-item">Effective k (max): {fillConductivity.max_k.toFixed(3)} W/(m·K)</div>
+              {fillConductivity.mean_nusselt > 1.001 && (
+                <div className="report-item">Convection enhancement (Nu): {fillConductivity.mean_nusselt.toFixed(1)}×</div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {simulationMode === 'plan' && energyReport && (
+          <div className="energy-report mt-4">
+            <h3 className="text-sm font-bold text-gray-700 mb-2">Energy Balance</h3>
+            <div className="report-list text-xs">
+              <div className="report-item">Domain stored: {(energyReport.domain_energy / 1000).toFixed(1)} kJ</div>
+              <div className="report-item">Fill stored: {(energyReport.fill_energy / 1000).toFixed(1)} kJ</div>
+              <div className="report-item">Wall stored: {(energyReport.wall_energy / 1000).toFixed(1)} kJ</div>
+              {samples.map(s => energyReport.sample_energy[s.id] !== undefined && (
+                <div key={s.id} className="report-item">{s.name} stored: {(energyReport.sample_energy[s.id] / 1000).toFixed(1)} kJ</div>
+              ))}
+              <div className="report-item">Change in storage: {(energyReport.domain_change / 1000).toFixed(2)} kJ</div>
+              <div className="report-item">Heat in from boundaries: {(energyReport.boundary_heat_in / 1000).toFixed(2)} kJ</div>
+              <div className="report-item">Hydration heat released: {(energyReport.heat_generated / 1000).toFixed(2)} kJ</div>
+              {energyReport.radiation_loss > 0 && (
+                <div className="report-item">Radiated from top: {(energyReport.radiation_loss / 1000).toFixed(2)} kJ</div>
+              )}
+              {energyReport.evaporation_loss > 0 && (
+                <div className="report-item">Evaporated from water: {(energyReport.evaporation_loss / 1000).toFixed(2)} kJ</div>
+              )}
+              <div className={`report-item ${energyReport.relative_error > 0.001 ? 'text-red-600' : 'text-green-600'}`}>
+                Conservation error: {(energyReport.balance_error / 1000).toFixed(4)} kJ ({(energyReport.relative_error * 100).toExponential(2)}%)
+              </div>
+            </div>
+          </div>
+        )}
+
+        {simulationMode === 'plan' && samples.length > 0 && (
+          <div className="mesh-study mt-4">
+            <h3 className="text-sm font-bold text-gray-700 mb-2">Mesh Convergence</h3>
+            <div className="form-row">
+              <label>Run Length (hours)</label>
+              <input 
+                type="number" step="1" min="0.5"
+                className="neumorphic-input"
+                value={meshStudyHours}
+                onChange={(e) => setMeshStudyHours(Math.max(0.5, Number(e.target.value)))}
+              />
+            </div>
+            {meshStudyRunning ? (
+              <button className="tool-btn" onClick={() => physicsRef.current.cancelMeshStudy()}>
+                Cancel ({Math.round(meshStudyProgress * 100)}%)
+              </button>
+            ) : (
+              <button className="tool-btn" disabled={isRunning} onClick={runMeshStudy}>
+                Run Study
+              </button>
+            )}
+            {meshStudy && (
+              <div className="report-list text-xs mt-2">
+                {meshStudy.levels.map(level => (
+                  <div key={level.cells_per_inch} className="report-item">
+                    {level.cells_per_inch} cells/in ({level.cell_count.toLocaleString()} cells):{' '}
+                    {samples.map(s => level.sample_temps[s.id] !== undefined ? `${level.sample_temps[s.id].toFixed(2)}°F` : '—').join(', ')}
+                    {level.max_change !== null && ` — Δ ${level.max_change.toFixed(2)}°F`}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {simulationMode === 'plan' && samples.length > 0 && (
+          <div className="steady-state mt-4">
+            <h3 className="text-sm font-bold text-gray-700 mb-2">Steady State</h3>
+            <p className="text-xs text-gray-500 mb-2">Hydration heat is excluded: none is left at equilibrium</p>
+            <button className="tool-btn" disabled={steadySolving || isRunning} onClick={solveSteadyState}>
+              {steadySolving ? 'Solving…' : 'Solve Steady State'}
+            </button>
+            {steadyState && (
+              <div className="report-list text-xs mt-2">
+                <div className={`report-item ${steadyState.converged ? 'text-green-600' : 'text-red-600'}`}>
+                  {steadyState.converged ? 'Converged' : 'Not converged'} after {steadyState.passes} passes
+                  ({steadyState.cg_iterations.toLocaleString()} CG iterations)
+                </div>
+                <div className="report-item">Largest cell imbalance: {steadyState.max_imbalance_w.toExponential(2)} W</div>
+                {steadyState.bath && (
+                  <div className={`report-item ${steadyState.bath.holds_setpoint ? '' : 'text-red-600'}`}>
+                    Bath: {steadyState.bath.temp_f.toFixed(2)}°F,{' '}
+                    {steadyState.bath.power_w >= 0 ? `heater ${steadyState.bath.power_w.toFixed(0)} W` : `chiller ${(-steadyState.bath.power_w).toFixed(0)} W`}
+                    {!steadyState.bath.holds_setpoint && ' (at full power, short of the setpoint)'}
+                  </div>
+                )}
+                {samples.map(s => steadyState.sample_temps[s.id] !== undefined && (
+                  <div key={s.id} className="report-item">
+                    {s.name}: {steadyState.sample_temps[s.id].toFixed(2)}°F
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {simulationMode === 'plan' && samples.length > 0 && (
+          <div className="rc-estimate mt-4">
+            <h3 className="text-sm font-bold text-gray-700 mb-2">Quick Estimate (RC)</h3>
+            <div className="form-row">
+              <label>Show on Graph</label>
+              <select 
+                className="neumorphic-input"
+                value={showEstimate ? 'on' : 'off'}
+                onChange={(e) => setShowEstimate(e.target.value === 'on')}
+              >
+                <option value="on">On</option>
+                <option value="off">Off</option>
+              </select>
+            </div>
+            {showEstimate && (
+              <div className="form-row">
+                <label>Length (hours)</label>
+                <input 
+                  type="number" step="1" min="1"
+                  className="neumorphic-input"
+                  value={estimateHours}
+                  onChange={(e) => setEstimateHours(Math.max(1, Number(e.target.value)))}
+                />
+              </div>
+            )}
+            {rcEstimate && (
+              <div className="report-list text-xs mt-2">
+                {samples.map(s => rcEstimate.sample_temps[s.id] && (
+                  <div key={s.id} className="report-item">
+                    {s.name}: {rcEstimate.sample_temps[s.id][rcEstimate.times.length - 1].toFixed(1)}°F at {estimateHours} h
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {!simulationComplete && (
           <div className="interference-report mt-4">
             <h3 className="text-sm font-bold text-gray-700 mb-2">Interference Report</h3>
@@ -1,6 +1,7 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { Container, Sample, ToolType } from '../types';
 import { PIXELS_PER_INCH } from '../const';
+import { getTurboColor } from '@/lib/colormap';
 
 interface CanvasProps {
   container: Container;
@@ -99,28 +100,6 @@ export const Canvas: React.FC<CanvasProps> = ({
     return result;
   };
 
-  const getTurboColor = (t: number) => {
-    const kRedVec4 = [0.13572138, 4.61539260, -42.66032258, 132.13108234, -152.94239396, 59.28637943];
-    const kGreenVec4 = [0.09140261, 2.19418839, 4.84296658, -14.18503333, 4.27729857, 2.82956604];
-    const kBlueVec4 = [0.10667330, 12.64194608, -60.58204836, 110.36276771, -89.90310912, 27.34824973];
-
-    const x = Math.max(0, Math.min(1, t));
-    const v4 = [1, x, x * x, x * x * x, x * x * x * x, x * x * x * x * x];
-    
-    let r = 0, g = 0, b = 0;
-    for (let i = 0; i < 6; i++) {
-      r += v4[i] * kRedVec4[i];
-      g += v4[i] * kGreenVec4[i];
-      b += v4[i] * kBlueVec4[i];
-    }
-
-    return {
-      r: Math.floor(Math.max(0, Math.min(1, r)) * 255),
-      g: Math.floor(Math.max(0, Math.min(1, g)) * 255),
-      b: Math.floor(Math.max(0, Math.min(1, b)) * 255)
-    };
-  };
-
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -230,7 +209,21 @@ export const Canvas: React.FC<CanvasProps> = ({
     }
     ctx.restore(); // END MASK
 
-    // 5. Draw Container Border
+    // 5. Draw Container Wall (built outward from the fill)
+    const wallPx = (container.wall_thickness_in ?? 0) * PIXELS_PER_INCH;
+    if (wallPx > 0) {
+      ctx.strokeStyle = container.wall_material.color;
+      ctx.lineWidth = wallPx;
+      ctx.beginPath();
+      if (container.shape === 'circle') {
+        ctx.arc(cx, cy, container.width / 2 + wallPx / 2, 0, Math.PI * 2);
+      } else {
+        ctx.rect(cx - container.width / 2 - wallPx / 2, cy - container.height / 2 - wallPx / 2, container.width + wallPx, container.height + wallPx);
+      }
+      ctx.stroke();
+    }
+
+    // 6. Draw Container Border
     ctx.strokeStyle = selectedId === 'container' ? '#9a4d00' : '#3f4492';
     ctx.lineWidth = 3;
     ctx.beginPath();
@@ -241,7 +234,7 @@ export const Canvas: React.FC<CanvasProps> = ({
     }
     ctx.stroke();
 
-    // 6. Draw Samples
+    // 7. Draw Samples
     samples.forEach(sample => {
       const isSelected = selectedId === sample.id;
       
@@ -289,14 +282,28 @@ export const Canvas: React.FC<CanvasProps> = ({
         ctx.fill();
       }
 
+      // Ice: frost the core in proportion to its frozen fraction
+      const frozen = sample.frozen_fraction ?? 0;
+      if (coreRadius > 0 && frozen > 0) {
+        ctx.beginPath();
+        ctx.arc(sample.x, sample.y, coreRadius, 0, Math.PI * 2);
+        ctx.fillStyle = `rgba(235, 248, 255, ${0.2 + 0.7 * frozen})`;
+        ctx.fill();
+      }
+
       // Always Draw Name Label
       ctx.font = 'bold 14px Inter';
       ctx.fillStyle = '#e3e3e3';
       ctx.textAlign = 'center';
       ctx.fillText(sample.name, sample.x, sample.y - rimRadius - 15);
+      if (frozen > 0) {
+        ctx.font = '12px Inter';
+        ctx.fillStyle = '#BFE6FF';
+        ctx.fillText(`${(frozen * 100).toFixed(0)}% frozen`, sample.x, sample.y + rimRadius + 18);
+      }
     });
 
-    // 7. Draw Measurements
+    // 8. Draw Measurements
     if (showMeasurements) {
       ctx.font = '14px Inter';
       ctx.lineWidth = 1;
@@ -0,0 +1,110 @@
+import React, { useRef, useEffect } from 'react';
+import { RZLayout } from '../engine/AxisymmetricEngine';
+import { ContainerPanel } from '../types';
+import { getTurboColor } from '@/lib/colormap';
+
+interface SideElevationCanvasProps {
+  gridData: number[][] | null; // r-z temperatures (F), rows from the top surface down
+  layout: RZLayout | null;
+  sampleName: string;
+  frozenFraction: number; // Frozen fraction of the sample's core (0-1)
+  lid?: ContainerPanel; // Absent = open top
+  floor?: ContainerPanel; // Absent = no heat through the floor
+}
+
+// Panel label with its conduction resistance, e.g. 'Plywood lid (R=0.10 m²·K/W)'
+const panelLabel = (panel: ContainerPanel, side: string) => {
+  const k = panel.material.thermal_conductivity;
+  const resistance = k > 0 ? panel.thickness_in * 0.0254 / k : 0;
+  return `${panel.material.name} ${side} (R=${resistance.toFixed(2)} m²·K/W)`;
+};
+
+// Side elevation of the axisymmetric solution, mirrored about the axis so the
+// whole cylinder cross-section is shown.
+export const SideElevationCanvas: React.FC<SideElevationCanvasProps> = ({
+  gridData,
+  layout,
+  sampleName,
+  frozenFraction,
+  lid,
+  floor
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.fillStyle = '#F3F4F6'; // Gray-100
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (!layout) return;
+
+    const { radialCells, verticalCells, cellSizeIn } = layout;
+    const cellPx = Math.min(
+      (canvas.width * 0.8) / (2 * radialCells),
+      (canvas.height * 0.8) / verticalCells
+    );
+    const axisX = canvas.width / 2;
+    const topY = (canvas.height - verticalCells * cellPx) / 2;
+    const pxPerInch = cellPx / cellSizeIn;
+
+    const minTemp = 70;
+    const maxTemp = 120;
+
+    // Heatmap (or plain fill before the run starts)
+    for (let j = 0; j < verticalCells; j++) {
+      for (let i = 0; i < radialCells; i++) {
+        if (gridData && gridData[j]) {
+          const t = Math.max(0, Math.min(1, (gridData[j][i] - minTemp) / (maxTemp - minTemp)));
+          const color = getTurboColor(t);
+          ctx.fillStyle = `rgb(${color.r},${color.g},${color.b})`;
+        } else {
+          ctx.fillStyle = '#f8a24b';
+        }
+        const y = topY + j * cellPx;
+        // Right half, then its mirror image
+        ctx.fillRect(axisX + i * cellPx, y, Math.ceil(cellPx), Math.ceil(cellPx));
+        ctx.fillRect(axisX - (i + 1) * cellPx, y, Math.ceil(cellPx), Math.ceil(cellPx));
+      }
+    }
+
+    // Container outline
+    ctx.strokeStyle = '#3f4492';
+    ctx.lineWidth = 3;
+    ctx.strokeRect(axisX - radialCells * cellPx, topY, 2 * radialCells * cellPx, verticalCells * cellPx);
+
+    // Mold outline
+    const sampleHalfWidth = layout.sampleRadiusIn * pxPerInch;
+    ctx.strokeStyle = 'rgba(255,255,255,0.8)';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(axisX - sampleHalfWidth, topY, 2 * sampleHalfWidth, layout.sampleDepthIn * pxPerInch);
+
+    // Axis
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(axisX, topY - 10);
+    ctx.lineTo(axisX, topY + verticalCells * cellPx + 10);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Labels
+    ctx.font = '12px Inter';
+    ctx.fillStyle = '#333';
+    ctx.textAlign = 'center';
+    const frozenLabel = frozenFraction > 0 ? ` — ${(frozenFraction * 100).toFixed(0)}% frozen` : '';
+    const topLabel = lid ? panelLabel(lid, 'lid') : 'top surface (open)';
+    ctx.fillText(`${sampleName}${frozenLabel} — ${topLabel}`, axisX, topY - 16);
+    const floorLabel = floor ? panelLabel(floor, 'floor') : 'floor (no heat loss)';
+    ctx.fillText(`${(verticalCells * cellSizeIn).toFixed(1)}" deep — ${floorLabel}`, axisX, topY + verticalCells * cellPx + 20);
+  }, [gridData, layout, sampleName, frozenFraction, lid, floor]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={window.innerWidth - 600}
+      height={window.innerHeight}
+    />
+  );
+};
@@ -3,16 +3,29 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsi
 
 interface GraphProps {
   data: any[];
+  startTime?: number; // Wall-clock time (ms) at t = 0; labels the axis with dates
+  // Quick-estimate curves by line key (sample name), drawn dashed in the
+  // colour of the simulated line
+  estimate?: Record<string, { time: number, temp: number }[]>;
 }
 
-export const TemperatureGraph: React.FC<GraphProps> = ({ data }) => {
-  if (!data || data.length === 0) return <div style={{ height: '200px', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#999' }}>No Data</div>;
+export const TemperatureGraph: React.FC<GraphProps> = ({ data, startTime, estimate }) => {
+  const estimateKeys = Object.keys(estimate ?? {}).filter(key => estimate![key].length > 0);
+  if ((!data || data.length === 0) && estimateKeys.length === 0) return <div style={{ height: '200px', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#999' }}>No Data</div>;
 
-  // Get keys (sample names)
-  const keys = Object.keys(data[0]).filter(k => k !== 'time');
+  // Get keys (sample names); non-numeric entries such as the energy ledger are not plotted
+  const keys = data.length > 0 ? Object.keys(data[0]).filter(k => k !== 'time' && typeof data[0][k] === 'number') : [];
+  // Percentages such as frozen cores, melted PCM or heater duty, plotted on a second
+  // axis once any of them is non-zero
+  const phaseKeys = data.some(d => Object.values(d.phase ?? {}).some(v => (v as number) > 0))
+    ? Object.keys(data[data.length - 1].phase ?? {})
+    : [];
 
   // Determine Time Scale
-  const maxTime = data[data.length - 1].time;
+  const maxTime = Math.max(
+    data.length > 0 ? data[data.length - 1].time : 0,
+    ...estimateKeys.map(key => estimate![key][estimate![key].length - 1].time)
+  );
   let timeUnit = 'Seconds';
   let timeDivisor = 1;
 
@@ -24,29 +37,60 @@ export const TemperatureGraph: React.FC<GraphProps> = ({ data }) => {
     timeDivisor = 60;
   }
 
+  // Weather-driven runs are read against the local clock
+  const clockLabel = (seconds: number) => new Date(startTime! + seconds * 1000)
+    .toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
   // Format Data for Display
-  const formattedData = data.map(d => ({
-    ...d,
-    displayTime: Number((d.time / timeDivisor).toFixed(1))
-  }));
+  const formattedData = data.map(d => {
+    const point: any = {
+      ...d,
+      displayTime: Number((d.time / timeDivisor).toFixed(1))
+    };
+    phaseKeys.forEach(key => {
+      point[key] = d.phase?.[key];
+    });
+    return point;
+  });
+  const estimateData = estimateKeys.map(key => estimate![key].map(p => ({
+    time: p.time,
+    displayTime: Number((p.time / timeDivisor).toFixed(1)),
+    [`${key} (RC)`]: p.temp
+  })));
+  // Estimates share their sample's colour; keys without a simulated line follow on
+  const colorIndex = (key: string, n: number) => (keys.includes(key) ? keys.indexOf(key) : keys.length + n);
 
   return (
     <div style={{ height: '250px', width: '100%', marginTop: '1rem', background: '#fff', padding: '10px', borderRadius: '8px' }}>
       <ResponsiveContainer width="100%" height="100%">
         <LineChart data={formattedData}>
           <CartesianGrid strokeDasharray="3 3" />
-          <XAxis 
-            dataKey="displayTime" 
-            label={{ value: `Time (${timeUnit})`, position: 'insideBottomRight', offset: -5 }} 
-            type="number"
-            domain={['auto', 'auto']}
-          />
-          <YAxis label={{ value: 'Temp (°F)', angle: -90, position: 'insideLeft' }} domain={['auto', 'auto']} />
-          <Tooltip labelFormatter={(value) => `${value} ${timeUnit}`} />
+          {startTime !== undefined ? (
+            <XAxis 
+              dataKey="time" 
+              label={{ value: 'Local Time', position: 'insideBottomRight', offset: -5 }} 
+              type="number"
+              domain={['auto', 'auto']}
+              tickFormatter={clockLabel}
+            />
+          ) : (
+            <XAxis 
+              dataKey="displayTime" 
+              label={{ value: `Time (${timeUnit})`, position: 'insideBottomRight', offset: -5 }} 
+              type="number"
+              domain={['auto', 'auto']}
+            />
+          )}
+          <YAxis yAxisId="temp" label={{ value: 'Temp (°F)', angle: -90, position: 'insideLeft' }} domain={['auto', 'auto']} />
+          {phaseKeys.length > 0 && (
+            <YAxis yAxisId="phase" orientation="right" label={{ value: 'Phase / Duty (%)', angle: 90, position: 'insideRight' }} domain={[0, 100]} />
+          )}
+          <Tooltip labelFormatter={(value) => startTime !== undefined ? clockLabel(value as number) : `${value} ${timeUnit}`} />
           <Legend />
           {keys.map((key, index) => (
             <Line 
               key={key} 
+              yAxisId="temp"
               type="monotone" 
               dataKey={key} 
               stroke={`hsl(${index * 60}, 70%, 50%)`} 
@@ -55,6 +99,36 @@ export const TemperatureGraph: React.FC<GraphProps> = ({ data }) => {
               isAnimationActive={false} // Disable animation for performance
             />
           ))}
+          {estimateKeys.map((key, n) => (
+            <Line 
+              key={`${key} (RC)`} 
+              yAxisId="temp"
+              type="monotone" 
+              data={estimateData[n]}
+              dataKey={`${key} (RC)`} 
+              stroke={`hsl(${colorIndex(key, n) * 60}, 70%, 50%)`} 
+              strokeDasharray="8 4"
+              dot={false} 
+              strokeWidth={1.5}
+              isAnimationActive={false}
+            />
+          ))}
+          {/* Percentages in muted hues between the sample colours, dotted,
+              so they never read as a sample or its estimate */}
+          {phaseKeys.map((key, index) => (
+            <Line 
+              key={key} 
+              yAxisId="phase"
+              type="monotone" 
+              dataKey={key} 
+              stroke={`hsl(${index * 60 + 30}, 30%, 35%)`} 
+              strokeDasharray="1 3"
+              strokeLinecap="round"
+              dot={false} 
+              strokeWidth={1.5}
+              isAnimationActive={false}
+            />
+          ))}
         </LineChart>
       </ResponsiveContainer>
     </div>
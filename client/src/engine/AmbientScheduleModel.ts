@@ -0,0 +1,85 @@
+import { AmbientSchedule, AmbientKeyframe } from '../types';
+
+export class AmbientScheduleModel {
+  // A 30°F day/night swing, warmest nine hours after the start
+  static getDefaultSchedule(): AmbientSchedule {
+    return {
+      mode: 'sinusoidal',
+      keyframes: [
+        { time_hours: 0, temperature: 70 },
+        { time_hours: 12, temperature: 50 },
+        { time_hours: 24, temperature: 70 }
+      ],
+      amplitude_f: 15,
+      period_hours: 24,
+      peak_hours: 9
+    };
+  }
+
+  static isTimeVarying(schedule: AmbientSchedule | undefined): boolean {
+    return !!schedule && schedule.mode !== 'constant';
+  }
+
+  // Copy with the keyframes in time order; keyframes are edited in place in
+  // the UI, so engines sort once when they are initialized
+  static sorted(schedule: AmbientSchedule | undefined): AmbientSchedule | undefined {
+    if (!schedule) return schedule;
+    return { ...schedule, keyframes: [...schedule.keyframes].sort((a, b) => a.time_hours - b.time_hours) };
+  }
+
+  // Ambient temperature (F) after `seconds` of simulated time. `meanF` is the
+  // container's ambient_temperature.
+  static temperatureAt(schedule: AmbientSchedule | undefined, meanF: number, seconds: number): number {
+    if (!schedule || schedule.mode === 'constant') return meanF;
+    const hours = seconds / 3600;
+
+    if (schedule.mode === 'sinusoidal') {
+      const period = Math.max(schedule.period_hours, 0.01);
+      return meanF + schedule.amplitude_f * Math.cos(2 * Math.PI * (hours - schedule.peak_hours) / period);
+    }
+
+    const frames = schedule.keyframes;
+    if (frames.length === 0) return meanF;
+    if (hours <= frames[0].time_hours) return frames[0].temperature;
+    for (let i = 1; i < frames.length; i++) {
+      const hi = frames[i];
+      if (hours <= hi.time_hours) {
+        const lo = frames[i - 1];
+        const span = hi.time_hours - lo.time_hours;
+        const f = span > 0 ? (hours - lo.time_hours) / span : 1;
+        return lo.temperature + f * (hi.temperature - lo.temperature);
+      }
+    }
+    return frames[frames.length - 1].temperature;
+  }
+
+  // Keyframes from `timestamp,temperature` rows (temperature in F). Numeric
+  // timestamps are hours since the start; date strings are taken relative to
+  // the first row. Header and malformed rows are skipped.
+  static parseCSV(text: string): AmbientKeyframe[] {
+    const rows: { time: number, temperature: number, isDate: boolean }[] = [];
+    for (const line of text.split(/\r?\n/)) {
+      const [timeField, tempField] = line.split(',').map(f => f?.trim());
+      if (!timeField || !tempField) continue;
+      const temperature = Number(tempField);
+      if (!Number.isFinite(temperature)) continue;
+
+      const numericTime = Number(timeField);
+      if (Number.isFinite(numericTime)) {
+        rows.push({ time: numericTime, temperature, isDate: false });
+      } else {
+        const date = Date.parse(timeField);
+        if (!Number.isNaN(date)) rows.push({ time: date, temperature, isDate: true });
+      }
+    }
+    if (rows.length === 0) return [];
+
+    const start = rows[0].time;
+    return rows
+      .map(r => ({
+        time_hours: r.isDate ? (r.time - start) / 3600000 : r.time,
+        temperature: r.temperature
+      }))
+      .sort((a, b) => a.time_hours - b.time_hours);
+  }
+}
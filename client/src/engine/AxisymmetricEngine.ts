@@ -0,0 +1,739 @@
+import { Container, ContainerPanel, Sample, Material, SolverSettings, ConvectionSettings, HydrationSettings, ContactResistance, AmbientSchedule, WeatherSettings, BathReport, FillConductivityReport, SurfaceLossSettings } from '../types';
+import { MaterialLibrary } from './MaterialLibrary';
+import { TridiagonalSolver } from './TridiagonalSolver';
+import { HydrationModel } from './HydrationModel';
+import { PhaseChangeModel } from './PhaseChangeModel';
+import { ContactResistanceModel, SampleLayer } from './ContactResistanceModel';
+import { AmbientScheduleModel } from './AmbientScheduleModel';
+import { WeatherModel, WeatherConditions } from './WeatherModel';
+import { BathModel } from './BathModel';
+import { NaturalConvectionModel } from './NaturalConvectionModel';
+import { SurfaceLossModel } from './SurfaceLossModel';
+import { PIXELS_PER_INCH } from '../const';
+
+// Constants
+const CELL_SIZE_IN = 0.1; // 1 r-z cell = 0.1" x 0.1"
+const CELL_SIZE_M = CELL_SIZE_IN * 0.0254; // m
+// Fraction of the explicit stability limit used for each sub-step
+const STABILITY_SAFETY_FACTOR = 0.9;
+// Temperature drift (°C) before a cell's table properties are re-evaluated
+const PROPERTY_TOLERANCE_C = 0.05;
+// Change in the wind-driven film coefficient (W/(m²·K)) before faces are relinked
+const WIND_FILM_TOLERANCE = 0.25;
+// Relative change in a water cell's Nusselt number before its faces are relinked
+const NUSSELT_TOLERANCE = 0.05;
+
+interface RZCell {
+  temp: number; // Celsius
+  nextTemp: number; // Celsius
+  material: Material;
+  conductivity: number; // Thermal conductivity at the current temperature (W/(m·K)), times nusselt
+  nusselt: number; // Natural-convection enhancement (1 = conduction only)
+  volume: number; // Ring volume (m³)
+  isBoundary: boolean; // Is this a fixed boundary condition?
+  inSample: boolean;
+  isCore: boolean;
+  layer: SampleLayer;
+  capacity: number; // rho * cp * ring volume (J/K)
+  condOut: number; // Face conductance to the cell at r+1 (W/K)
+  condDown: number; // Face conductance to the cell at z+1 (W/K)
+  latentHeat: number; // Latent heat of the ring's mass (J), 0 = no phase change
+  liquidFraction: number; // 1 = fully liquid
+}
+
+// Mesh extents for the side-elevation view (inches)
+export interface RZLayout {
+  radialCells: number; // Columns from the axis out to the container wall
+  verticalCells: number; // Rows from the top surface down to the floor
+  cellSizeIn: number;
+  sampleRadiusIn: number;
+  sampleDepthIn: number; // Top surface to the bottom of the mold
+}
+
+// Axisymmetric (radius x height) model of one sample sitting in its well.
+// Row 0 is the open top surface (ambient air), the last row is the air under
+// the floor and the last column is the container wall; all three are held at
+// ambient like the air cells of the plan view. With convection enabled the top
+// and wall faces lose heat through a surface film instead. A lid adds its
+// resistance to the top face. As in the plan view, the floor passes no heat
+// unless it has a panel. Column 0 sits on the axis, where there is no flux.
+export class AxisymmetricEngine {
+  private grid: RZCell[][] = []; // grid[z][r], z = 0 at the top
+  private nr: number = 0;
+  private nz: number = 0;
+  private time: number = 0; // Simulated seconds since initialize()
+  private stableTimeStep: number = Infinity; // Largest stable explicit step (s)
+  private solver: SolverSettings = { mode: 'explicit', time_step_min: 5 };
+  private convection: ConvectionSettings | null = null; // null = fixed air cells
+  private stillAir: ConvectionSettings | null = null; // Films before any wind
+  private weather: WeatherSettings | undefined;
+  // Parsed start of the weather run and the conditions reused every sub-step
+  private weatherStart = 0;
+  private weatherConditions: WeatherConditions = { dry_bulb_f: 0, wind_speed_mph: 0, solar_w_m2: 0 };
+  private solarFlux: number = 0; // Absorbed by the open top (W/m²)
+  private lidCells: {cell: RZCell, area: number}[] = []; // Top row of updated cells
+  private surfaceLosses: SurfaceLossSettings | null = null; // Radiation / evaporation
+  private lidResistance: number | null = null; // m²·K/W, null = open top
+  private floorResistance: number | null = null; // m²·K/W, null = no floor panel
+  private layout: RZLayout | null = null;
+  private sampleId: string | null = null;
+  // Core cells releasing hydration heat, with their equivalent age (s)
+  private hydrationCells: {cell: RZCell, mass: number, age: number}[] = [];
+  private hydration: HydrationSettings | null = null;
+  private contact: ContactResistance | null = null; // Mold interface resistances
+  private ambientC: number = 0;
+  private ambientSchedule: AmbientSchedule | undefined;
+  private meanAmbientF: number = 0;
+  private ambientCells: RZCell[] = []; // Top air, floor and wall boundary
+  // Updated cells whose material has temperature tables, with the
+  // temperature their properties were last evaluated at
+  private variableCells: {j: number, i: number, evaluatedAt: number}[] = [];
+  // Updated cells that can freeze
+  private phaseCells: RZCell[] = [];
+  private fillCells: RZCell[] = []; // Updated fill cells
+  // Passive water fill cells whose conductivity carries natural convection
+  private convectionCells: {cell: RZCell, j: number, i: number}[] = [];
+  private fillDepthM: number = 0; // Water depth driving natural convection
+  // Scratch arrays for the ADI line solves, sized to the longest grid line
+  private lineBuffers = {
+    lower: new Float64Array(0),
+    diag: new Float64Array(0),
+    upper: new Float64Array(0),
+    rhs: new Float64Array(0),
+    solution: new Float64Array(0),
+    scratch: new Float64Array(0)
+  };
+
+  // Convert F to C
+  f2c(f: number): number { return (f - 32) * 5 / 9; }
+  // Convert C to F
+  c2f(c: number): number { return c * 9 / 5 + 32; }
+
+  // Build the r-z mesh for `sample`. The fill runs out to the nearest
+  // container wall in the plan view, so crowding against a wall is captured,
+  // and the wall itself is a ring of wall material beyond it.
+  initialize(container: Container, sample: Sample, canvasWidth: number, canvasHeight: number) {
+    this.time = 0;
+    this.sampleId = sample.id;
+    this.hydration = sample.hydration?.enabled ? sample.hydration : null;
+    this.contact = sample.contact_resistance ?? null;
+    this.hydrationCells = [];
+    this.variableCells = [];
+    this.phaseCells = [];
+    this.fillCells = [];
+    this.convectionCells = [];
+    const passiveWater = container.fill_type === 'Water' && BathModel.isPassive(container.bath);
+    this.stillAir = container.convection?.enabled ? container.convection : null;
+    this.convection = this.stillAir;
+    this.surfaceLosses = SurfaceLossModel.isActive(container.surface_losses) ? container.surface_losses! : null;
+
+    this.ambientSchedule = AmbientScheduleModel.sorted(container.ambient_schedule);
+    this.meanAmbientF = container.ambient_temperature;
+    this.weather = container.weather;
+    this.weatherStart = WeatherModel.isActive(this.weather) ? WeatherModel.startTimestamp(this.weather!) : 0;
+    this.ambientCells = [];
+    this.lidCells = [];
+    const ambientC = this.f2c(this.ambientAt(0));
+    this.ambientC = ambientC;
+    this.lidResistance = this.panelResistance(container.lid, ambientC);
+    this.floorResistance = this.panelResistance(container.floor, ambientC);
+    this.solarFlux = 0;
+    const conditions = WeatherModel.conditionsAt(this.weather, 0, this.weatherStart, this.weatherConditions);
+    if (conditions) {
+      if (this.stillAir) this.convection = WeatherModel.windFilm(this.stillAir, conditions.wind_speed_mph);
+      this.solarFlux = conditions.solar_w_m2 * this.weather!.solar_absorptance;
+    }
+    let fillTempC = ambientC;
+    if (container.fill_type === 'Water' && container.water_temperature !== undefined) {
+      fillTempC = this.f2c(container.water_temperature);
+    } else if (container.fill_type === 'PCM' && container.pcm) {
+      fillTempC = this.f2c(container.pcm.initial_temperature_f);
+    }
+    const sampleTempC = this.f2c(sample.initial_temperature);
+
+    // Geometry in inches
+    const outerRadiusIn = sample.radius / PIXELS_PER_INCH;
+    const middleRadiusIn = outerRadiusIn - sample.outer_thickness_in;
+    const coreRadiusIn = middleRadiusIn - sample.middle_thickness_in;
+    const heightIn = sample.size === '2x4' ? 4 : 8;
+    const depthIn = Math.max(container.depth / PIXELS_PER_INCH, heightIn);
+    this.fillDepthM = depthIn * 0.0254;
+
+    const cx = canvasWidth / 2;
+    const cy = canvasHeight / 2;
+    let wallDistancePx: number;
+    if (container.shape === 'circle') {
+      wallDistancePx = container.width / 2 - Math.sqrt((sample.x - cx) ** 2 + (sample.y - cy) ** 2);
+    } else {
+      wallDistancePx = Math.min(
+        sample.x - (cx - container.width / 2),
+        (cx + container.width / 2) - sample.x,
+        sample.y - (cy - container.height / 2),
+        (cy + container.height / 2) - sample.y
+      );
+    }
+    const fillRadiusIn = Math.max(wallDistancePx / PIXELS_PER_INCH, outerRadiusIn + CELL_SIZE_IN);
+    const domainRadiusIn = fillRadiusIn + (container.wall_thickness_in ?? 0);
+
+    // Core density from the water mass, as in the plan view
+    const coreVolumeM3 = Math.PI * (coreRadiusIn * 0.0254) ** 2 * (heightIn * 0.0254);
+    const coreMat: Material = {
+      ...sample.core_material,
+      density: (sample.water_mass_lbs * 0.453592) / coreVolumeM3,
+      density_table: undefined
+    };
+
+    // Mold stack from the top surface down: core (full cylinder height), then
+    // the plastic liner bottom, then the aluminum sleeve bottom.
+    const coreBottomIn = heightIn;
+    const middleBottomIn = Math.min(depthIn, coreBottomIn + sample.middle_thickness_in);
+    const outerBottomIn = Math.min(depthIn, middleBottomIn + sample.outer_thickness_in);
+
+    this.nr = Math.ceil(domainRadiusIn / CELL_SIZE_IN);
+    this.nz = Math.ceil(depthIn / CELL_SIZE_IN);
+    const air = MaterialLibrary.getMaterials()['Air'];
+
+    // Interior rows 1..nz, boundary rows 0 (top air) and nz + 1 (floor);
+    // interior columns 0..nr-1, boundary column nr (container wall).
+    this.grid = [];
+    for (let j = 0; j <= this.nz + 1; j++) {
+      const row: RZCell[] = [];
+      const depthCenterIn = (j - 0.5) * CELL_SIZE_IN; // Below the top surface
+      for (let i = 0; i <= this.nr; i++) {
+        const radiusCenterIn = (i + 0.5) * CELL_SIZE_IN;
+
+        let material = container.fill_material;
+        let temp = fillTempC;
+        let isBoundary = container.fill_type === 'Water' && !passiveWater;
+        let inSample = false;
+        let isCore = false;
+        let layer: SampleLayer = 'fill';
+
+        if (j === 0 || j === this.nz + 1 || i === this.nr) {
+          material = air;
+          temp = ambientC;
+          isBoundary = true;
+        } else if (radiusCenterIn > fillRadiusIn) {
+          // Container wall, starting at ambient
+          material = container.wall_material;
+          temp = ambientC;
+          isBoundary = false;
+        } else if (radiusCenterIn <= outerRadiusIn && depthCenterIn <= outerBottomIn) {
+          inSample = true;
+          isBoundary = false;
+          temp = sampleTempC;
+          if (radiusCenterIn <= coreRadiusIn && depthCenterIn <= coreBottomIn) {
+            material = coreMat;
+            isCore = true;
+            layer = 'core';
+          } else if (radiusCenterIn <= middleRadiusIn && depthCenterIn <= middleBottomIn) {
+            material = sample.middle_material;
+            layer = 'middle';
+          } else {
+            material = sample.outer_material;
+            layer = 'outer';
+          }
+        }
+
+        // Ring volume 2*pi*r*dr*dz
+        const volume = 2 * Math.PI * (radiusCenterIn * 0.0254) * CELL_SIZE_M * CELL_SIZE_M;
+        const props = MaterialLibrary.getProperties(material, temp);
+        const phase = isBoundary ? undefined : material.phase_change;
+        const cell: RZCell = {
+          temp,
+          nextTemp: temp,
+          material,
+          conductivity: props.thermal_conductivity,
+          nusselt: 1,
+          volume,
+          isBoundary,
+          inSample,
+          isCore,
+          layer,
+          capacity: props.density * props.specific_heat * volume,
+          condOut: 0,
+          condDown: 0,
+          latentHeat: phase ? phase.latent_heat * props.density * volume : 0,
+          liquidFraction: phase ? PhaseChangeModel.liquidFraction(temp, phase) : 1
+        };
+        if (phase) this.phaseCells.push(cell);
+        if (j === 0 || j === this.nz + 1 || i === this.nr) this.ambientCells.push(cell);
+        if (j === 1 && i < this.nr && !cell.isBoundary) {
+          this.lidCells.push({ cell, area: 2 * Math.PI * (i + 0.5) * CELL_SIZE_M * CELL_SIZE_M });
+        }
+        if (!isBoundary && !inSample && material === container.fill_material) {
+          this.fillCells.push(cell);
+          if (passiveWater) this.convectionCells.push({ cell, j, i });
+        }
+        if (isCore && this.hydration) {
+          this.hydrationCells.push({ cell, mass: material.density * volume, age: 0 });
+        }
+        if (!isBoundary && MaterialLibrary.hasPropertyTables(material)) {
+          this.variableCells.push({ j, i, evaluatedAt: temp });
+        }
+        row.push(cell);
+      }
+      this.grid.push(row);
+    }
+
+    this.layout = {
+      radialCells: this.nr,
+      verticalCells: this.nz,
+      cellSizeIn: CELL_SIZE_IN,
+      sampleRadiusIn: outerRadiusIn,
+      sampleDepthIn: outerBottomIn
+    };
+
+    this.buildConductances();
+    this.stableTimeStep = this.computeStableTimeStep();
+
+    const lineLength = Math.max(this.nr + 1, this.nz + 2);
+    this.lineBuffers = {
+      lower: new Float64Array(lineLength),
+      diag: new Float64Array(lineLength),
+      upper: new Float64Array(lineLength),
+      rhs: new Float64Array(lineLength),
+      solution: new Float64Array(lineLength),
+      scratch: new Float64Array(lineLength)
+    };
+  }
+
+  // Finite-volume conductances in cylindrical coordinates. Radial faces have
+  // area 2*pi*r_face*dz, axial faces the ring area 2*pi*r*dr; the face
+  // conductivity is the harmonic mean of the two cells.
+  private buildConductances() {
+    for (let j = 0; j < this.grid.length; j++) {
+      for (let i = 0; i <= this.nr; i++) {
+        this.linkCell(j, i);
+      }
+    }
+  }
+
+  // Conductances owned by cell (j, i): its outer and lower faces. Faces
+  // between mold layers also carry the sample's contact resistance.
+  private linkCell(j: number, i: number) {
+    const cell = this.grid[j][i];
+    const k = cell.conductivity;
+    if (i < this.nr) {
+      const faceRadius = (i + 1) * CELL_SIZE_M;
+      const area = 2 * Math.PI * faceRadius * CELL_SIZE_M;
+      if (this.convection && i === this.nr - 1 && j > 0 && j <= this.nz) {
+        // Container wall
+        cell.condOut = this.filmConductance(this.convection.wall_h, k, area, CELL_SIZE_M / 2);
+      } else {
+        const outer = this.grid[j][i + 1];
+        const kFace = this.harmonicMean(k, outer.conductivity);
+        cell.condOut = ContactResistanceModel.apply(kFace * area / CELL_SIZE_M, area, cell.layer, outer.layer, this.contact);
+      }
+    }
+    if (j + 1 < this.grid.length) {
+      const ringRadius = (i + 0.5) * CELL_SIZE_M;
+      const area = 2 * Math.PI * ringRadius * CELL_SIZE_M;
+      const below = this.grid[j + 1][i];
+      if (this.lidResistance !== null && j === 0 && i < this.nr) {
+        cell.condDown = this.panelConductance(this.lidResistance, this.convection?.top_h, below.conductivity, area);
+      } else if (this.convection && j === 0 && i < this.nr) {
+        // Open top surface
+        cell.condDown = this.filmConductance(this.convection.top_h, below.conductivity, area, CELL_SIZE_M / 2);
+      } else if (j === this.nz && i < this.nr) {
+        // Floor panel, its underside under the wall film; none = adiabatic
+        cell.condDown = this.floorResistance !== null
+          ? this.panelConductance(this.floorResistance, this.convection?.wall_h, k, area)
+          : 0;
+      } else {
+        const kFace = this.harmonicMean(k, below.conductivity);
+        cell.condDown = ContactResistanceModel.apply(kFace * area / CELL_SIZE_M, area, cell.layer, below.layer, this.contact);
+      }
+    }
+  }
+
+  // Re-evaluate temperature-dependent properties before a step (see
+  // GridPhysicsEngine.updateProperties)
+  private updateProperties() {
+    for (const v of this.variableCells) {
+      const cell = this.grid[v.j][v.i];
+      if (Math.abs(cell.temp - v.evaluatedAt) < PROPERTY_TOLERANCE_C) continue;
+      v.evaluatedAt = cell.temp;
+      const props = MaterialLibrary.getProperties(cell.material, cell.temp);
+      cell.capacity = props.density * props.specific_heat * cell.volume;
+      cell.conductivity = props.thermal_conductivity * cell.nusselt;
+      this.linkCell(v.j, v.i);
+      if (v.i > 0) this.linkCell(v.j, v.i - 1);
+      this.linkCell(v.j - 1, v.i);
+    }
+  }
+
+  // Passive water fill (see GridPhysicsEngine.updateNaturalConvection)
+  private updateNaturalConvection(): boolean {
+    if (this.convectionCells.length === 0) return false;
+    let energy = 0;
+    let capacity = 0;
+    for (const { cell } of this.convectionCells) {
+      energy += cell.capacity * cell.temp;
+      capacity += cell.capacity;
+    }
+    const bulkC = energy / capacity;
+    let relinked = false;
+
+    for (const { cell, j, i } of this.convectionCells) {
+      const props = MaterialLibrary.getProperties(cell.material, cell.temp);
+      const nusselt = NaturalConvectionModel.nusselt(cell.temp - bulkC, this.fillDepthM, cell.temp, props, cell.liquidFraction);
+      if (Math.abs(nusselt - cell.nusselt) < NUSSELT_TOLERANCE * cell.nusselt) continue;
+      cell.nusselt = nusselt;
+      cell.conductivity = props.thermal_conductivity * nusselt;
+      relinked = true;
+      this.linkCell(j, i);
+      if (i > 0) this.linkCell(j, i - 1);
+      this.linkCell(j - 1, i);
+    }
+    return relinked;
+  }
+
+  private harmonicMean(a: number, b: number): number {
+    return a + b > 0 ? (2 * a * b) / (a + b) : 0;
+  }
+
+  // Surface film h in series with conduction from the cell centre to the
+  // surface: G = A / (1/h + d/k)
+  private filmConductance(h: number, k: number, area: number, halfThickness: number): number {
+    if (h <= 0) return 0;
+    return area / (1 / h + (k > 0 ? halfThickness / k : 0));
+  }
+
+  // Cell centre to ambient through a lid or floor panel, then its film when
+  // `h` is set (see GridPhysicsEngine.panelConductance)
+  private panelConductance(panelResistance: number, h: number | undefined, k: number, area: number): number {
+    if (h !== undefined && h <= 0) return 0;
+    const resistance = (k > 0 ? (CELL_SIZE_M / 2) / k : 0) + panelResistance + (h !== undefined ? 1 / h : 0);
+    return resistance > 0 ? area / resistance : 0;
+  }
+
+  // Conduction resistance per unit area (m²·K/W) of a lid or floor
+  // (see GridPhysicsEngine.panelResistance)
+  private panelResistance(panel: ContainerPanel | undefined, tempC: number): number | null {
+    if (!panel) return null;
+    const k = MaterialLibrary.getProperties(panel.material, tempC).thermal_conductivity;
+    const thicknessM = panel.thickness_in * 0.0254;
+    return k > 0 ? thicknessM / k : 0;
+  }
+
+  private computeStableTimeStep(): number {
+    let minStep = Infinity;
+    for (let j = 1; j <= this.nz; j++) {
+      for (let i = 0; i < this.nr; i++) {
+        const cell = this.grid[j][i];
+        if (cell.isBoundary) continue;
+        const totalConductance = cell.condOut + cell.condDown
+          + (i > 0 ? this.grid[j][i - 1].condOut : 0) + this.grid[j - 1][i].condDown;
+        if (totalConductance > 0) {
+          minStep = Math.min(minStep, cell.capacity / totalConductance);
+        }
+      }
+    }
+    return STABILITY_SAFETY_FACTOR * minStep;
+  }
+
+  // Simulated time in seconds
+  getTime(): number {
+    return this.time;
+  }
+
+  getLayout(): RZLayout | null {
+    return this.layout;
+  }
+
+  setSolverSettings(settings: SolverSettings) {
+    this.solver = { ...settings };
+  }
+
+  // Advance simulated time by exactly `seconds` (see GridPhysicsEngine.advance)
+  advance(seconds: number) {
+    if (seconds <= 0 || this.grid.length === 0) return;
+    const useADI = this.solver.mode === 'adi';
+    // Properties are refreshed before every step, the stability limit once
+    // per call (it drifts only slowly with temperature)
+    this.updateProperties();
+    const relinked = this.updateNaturalConvection();
+    const filmChanged = this.updateWindFilm(this.time);
+    if (relinked || filmChanged || this.variableCells.length > 0) this.stableTimeStep = this.computeStableTimeStep();
+    const maxStep = useADI
+      ? Math.max(1, this.solver.time_step_min * 60)
+      : this.stableTimeStep;
+    const subSteps = Math.max(1, Math.ceil(seconds / maxStep));
+    const dt = seconds / subSteps;
+    for (let n = 0; n < subSteps; n++) {
+      if (n > 0) this.updateProperties();
+      this.updateAmbient(this.time + dt);
+      if (useADI) {
+        this.integrateADI(dt);
+      } else {
+        this.integrate(dt);
+      }
+      this.absorbSolar(dt);
+      this.applySurfaceLosses(dt);
+      this.releaseHydrationHeat(dt);
+      this.settlePhases();
+    }
+  }
+
+  // Weather-file or scheduled ambient (F) (see GridPhysicsEngine.ambientAt)
+  private ambientAt(seconds: number): number {
+    const conditions = WeatherModel.conditionsAt(this.weather, seconds, this.weatherStart, this.weatherConditions);
+    return conditions
+      ? conditions.dry_bulb_f
+      : AmbientScheduleModel.temperatureAt(this.ambientSchedule, this.meanAmbientF, seconds);
+  }
+
+  // Scheduled ambient (see GridPhysicsEngine.updateAmbient)
+  private updateAmbient(seconds: number) {
+    const conditions = WeatherModel.conditionsAt(this.weather, seconds, this.weatherStart, this.weatherConditions);
+    if (!conditions && !AmbientScheduleModel.isTimeVarying(this.ambientSchedule)) return;
+    this.ambientC = this.f2c(this.ambientAt(seconds));
+    for (const cell of this.ambientCells) {
+      cell.temp = this.ambientC;
+      cell.nextTemp = this.ambientC;
+    }
+    if (conditions) this.solarFlux = conditions.solar_w_m2 * this.weather!.solar_absorptance;
+  }
+
+  // Wind-driven films (see GridPhysicsEngine.updateWindFilm)
+  private updateWindFilm(seconds: number): boolean {
+    const conditions = WeatherModel.conditionsAt(this.weather, seconds, this.weatherStart, this.weatherConditions);
+    if (!conditions || !this.stillAir || !this.convection) return false;
+    const film = WeatherModel.windFilm(this.stillAir, conditions.wind_speed_mph);
+    if (Math.abs(film.top_h - this.convection.top_h) < WIND_FILM_TOLERANCE) return false;
+    this.convection = film;
+    this.buildConductances();
+    return true;
+  }
+
+  // Top-surface radiation and evaporation (see GridPhysicsEngine.applySurfaceLosses)
+  private applySurfaceLosses(dt: number) {
+    if (!this.surfaceLosses) return;
+    const skyC = SurfaceLossModel.skyTemperatureC(this.surfaceLosses, this.ambientC);
+    const open = this.lidResistance === null;
+    for (const { cell, area } of this.lidCells) {
+      const wet = open && SurfaceLossModel.isOpenWater(cell.material) ? cell.liquidFraction : 0;
+      const flux = SurfaceLossModel.flux(this.surfaceLosses, cell.temp, this.ambientC, skyC, wet);
+      cell.temp += SurfaceLossModel.cool(flux, cell.capacity, area, dt).change;
+      cell.nextTemp = cell.temp;
+    }
+  }
+
+  // Solar gain on the top surface (see GridPhysicsEngine.absorbSolar)
+  private absorbSolar(dt: number) {
+    if (this.solarFlux <= 0) return;
+    for (const lid of this.lidCells) {
+      lid.cell.temp += this.solarFlux * lid.area * dt / lid.cell.capacity;
+      lid.cell.nextTemp = lid.cell.temp;
+    }
+  }
+
+  // Hydration heat source (see GridPhysicsEngine.releaseHydrationHeat)
+  private releaseHydrationHeat(dt: number) {
+    if (!this.hydration) return;
+    for (const h of this.hydrationCells) {
+      const nextAge = h.age + dt * HydrationModel.ageRate(h.cell.temp, this.hydration);
+      const heat = h.mass * HydrationModel.heatReleased(h.age, nextAge, this.hydration);
+      h.age = nextAge;
+      h.cell.temp += heat / h.cell.capacity;
+      h.cell.nextTemp = h.cell.temp;
+    }
+  }
+
+  private integrate(dt: number) {
+    this.time += dt;
+
+    for (let j = 1; j <= this.nz; j++) {
+      for (let i = 0; i < this.nr; i++) {
+        const cell = this.grid[j][i];
+        if (cell.isBoundary) continue;
+
+        const above = this.grid[j - 1][i];
+        const below = this.grid[j + 1][i];
+        const outer = this.grid[j][i + 1];
+
+        let heatIn =
+          above.condDown * (above.temp - cell.temp) +
+          cell.condDown * (below.temp - cell.temp) +
+          cell.condOut * (outer.temp - cell.temp);
+        if (i > 0) {
+          const inner = this.grid[j][i - 1];
+          heatIn += inner.condOut * (inner.temp - cell.temp);
+        }
+
+        cell.nextTemp = cell.temp + (heatIn * dt) / cell.capacity;
+      }
+    }
+
+    for (let j = 1; j <= this.nz; j++) {
+      for (let i = 0; i < this.nr; i++) {
+        this.grid[j][i].temp = this.grid[j][i].nextTemp;
+      }
+    }
+  }
+
+  // Backward Euler along r, then along z (see GridPhysicsEngine.integrateADI)
+  private integrateADI(dt: number) {
+    this.time += dt;
+
+    for (let j = 1; j <= this.nz; j++) {
+      const row = this.grid[j];
+      this.sweepLine(this.nr + 1, i => row[i], cell => cell.condOut, dt);
+    }
+    for (let i = 0; i < this.nr; i++) {
+      this.sweepLine(this.nz + 2, j => this.grid[j][i], cell => cell.condDown, dt);
+    }
+  }
+
+  // Enthalpy recovery for freezing cells (see GridPhysicsEngine.settlePhases)
+  private settlePhases() {
+    for (const cell of this.phaseCells) {
+      const phase = cell.material.phase_change!;
+      const energy = cell.capacity * cell.temp + cell.latentHeat * cell.liquidFraction;
+      const state = PhaseChangeModel.settle(energy, cell.capacity, cell.latentHeat, phase);
+      cell.temp = state.temp;
+      cell.nextTemp = state.temp;
+      cell.liquidFraction = state.liquidFraction;
+    }
+  }
+
+  // Radial lines start on the axis, which has no inner link (no-flux); the
+  // last cell of every line is a boundary cell.
+  private sweepLine(
+    length: number,
+    cellAt: (n: number) => RZCell,
+    linkOf: (cell: RZCell) => number,
+    dt: number
+  ) {
+    const { lower, diag, upper, rhs, solution, scratch } = this.lineBuffers;
+
+    let prevLink = 0;
+    for (let n = 0; n < length; n++) {
+      const cell = cellAt(n);
+      const nextLink = linkOf(cell);
+      rhs[n] = cell.temp;
+      if (n === length - 1 || cell.isBoundary) {
+        lower[n] = 0;
+        diag[n] = 1;
+        upper[n] = 0;
+      } else {
+        const scale = dt / cell.capacity;
+        lower[n] = -prevLink * scale;
+        upper[n] = -nextLink * scale;
+        diag[n] = 1 + (prevLink + nextLink) * scale;
+      }
+      prevLink = nextLink;
+    }
+
+    TridiagonalSolver.solve(lower, diag, upper, rhs, solution, length, scratch);
+
+    for (let n = 0; n < length; n++) {
+      const cell = cellAt(n);
+      cell.temp = solution[n];
+      cell.nextTemp = solution[n];
+    }
+  }
+
+  // Current ambient air temperature (F)
+  getAmbientTemp(): number {
+    return this.c2f(this.ambientC);
+  }
+
+  // The r-z domain holds only the water around one sample, too little of the
+  // tank to carry the heater's load, so the bath stays at water_temperature
+  getBathReport(): BathReport | null {
+    return null;
+  }
+
+  // Average temperature of the whole sample, weighted by heat capacity
+  // (see GridPhysicsEngine.getSampleTemp) (F)
+  getSampleTemp(sampleId: string): number {
+    if (sampleId !== this.sampleId) return 0;
+    return this.averageTemp(cell => cell.inSample);
+  }
+
+  // Frozen fraction of the sample's freezable mass, weighted by latent heat
+  getSampleFrozenFraction(sampleId: string): number {
+    if (sampleId !== this.sampleId) return 0;
+    let frozen = 0;
+    let latent = 0;
+    for (const cell of this.phaseCells) {
+      if (!cell.inSample) continue;
+      frozen += cell.latentHeat * (1 - cell.liquidFraction);
+      latent += cell.latentHeat;
+    }
+    return latent > 0 ? frozen / latent : 0;
+  }
+
+  // Conductivity of the updated fill, volume-weighted (see
+  // GridPhysicsEngine.getFillConductivity)
+  getFillConductivity(): FillConductivityReport | null {
+    if (this.fillCells.length === 0) return null;
+    let sumK = 0;
+    let maxK = 0;
+    let sumNu = 0;
+    let volume = 0;
+    for (const cell of this.fillCells) {
+      sumK += cell.conductivity * cell.volume;
+      maxK = Math.max(maxK, cell.conductivity);
+      sumNu += cell.nusselt * cell.volume;
+      volume += cell.volume;
+    }
+    return { mean_k: sumK / volume, max_k: maxK, mean_nusselt: sumNu / volume };
+  }
+
+  // Melted fraction of the fill's phase-change material (0 with no PCM)
+  getFillMeltedFraction(): number {
+    let melted = 0;
+    let latent = 0;
+    for (const cell of this.phaseCells) {
+      if (cell.inSample) continue;
+      melted += cell.latentHeat * cell.liquidFraction;
+      latent += cell.latentHeat;
+    }
+    return latent > 0 ? melted / latent : 0;
+  }
+
+  // Average core temperature in the top and bottom inch of the core (F)
+  getCoreGradient(): { top: number, bottom: number } {
+    if (!this.layout) return { top: 0, bottom: 0 };
+    const inchRows = Math.round(1 / CELL_SIZE_IN);
+    let coreBottomRow = 1;
+    for (let j = 1; j <= this.nz; j++) {
+      if (this.grid[j][0].isCore) coreBottomRow = j;
+    }
+    return {
+      top: this.averageTemp((cell, j) => cell.isCore && j < 1 + inchRows),
+      bottom: this.averageTemp((cell, j) => cell.isCore && j > coreBottomRow - inchRows)
+    };
+  }
+
+  private averageTemp(include: (cell: RZCell, row: number) => boolean): number {
+    let energy = 0;
+    let capacity = 0;
+    for (let j = 1; j <= this.nz; j++) {
+      for (let i = 0; i < this.nr; i++) {
+        const cell = this.grid[j][i];
+        if (!include(cell, j)) continue;
+        energy += cell.capacity * cell.temp;
+        capacity += cell.capacity;
+      }
+    }
+    return capacity > 0 ? this.c2f(energy / capacity) : 0;
+  }
+
+  // Interior temperatures in F, rows from the top surface down, columns from
+  // the axis out to the container wall
+  getGrid(): number[][] {
+    const rows: number[][] = [];
+    for (let j = 1; j <= this.nz; j++) {
+      const row: number[] = [];
+      for (let i = 0; i < this.nr; i++) {
+        row.push(this.c2f(this.grid[j][i].temp));
+      }
+      rows.push(row);
+    }
+    return rows;
+  }
+}
@@ -0,0 +1,101 @@
+import { BathSettings } from '../types';
+
+// Lumped state of a thermostat-controlled bath
+export interface BathState {
+  temp: number; // Celsius
+  heating: boolean; // On/off thermostat contacts
+  chilling: boolean;
+  integral: number; // PID accumulated error (°F·min)
+  lastTempF: number | null; // For the PID derivative term
+  heaterPower: number; // W over the last step
+  chillerPower: number;
+  heaterEnergy: number; // J, cumulative
+  chillerEnergy: number;
+}
+
+export class BathModel {
+  // A 1500 W immersion heater on a ±1°F on/off thermostat
+  static getDefaultSettings(setpointF: number): BathSettings {
+    return {
+      mode: 'thermostat',
+      control: 'on_off',
+      setpoint_f: setpointF,
+      deadband_f: 2,
+      heater_w: 1500,
+      chiller_w: 0,
+      pid_kp: 0.5,
+      pid_ki: 0.02,
+      pid_kd: 0
+    };
+  }
+
+  static isLumped(bath: BathSettings | undefined): boolean {
+    return !!bath && bath.mode === 'thermostat';
+  }
+
+  static isPassive(bath: BathSettings | undefined): boolean {
+    return !!bath && bath.mode === 'passive';
+  }
+
+  static createState(tempC: number): BathState {
+    return {
+      temp: tempC,
+      heating: false,
+      chilling: false,
+      integral: 0,
+      lastTempF: null,
+      heaterPower: 0,
+      chillerPower: 0,
+      heaterEnergy: 0,
+      chillerEnergy: 0
+    };
+  }
+
+  // Advance the bath by `dt` seconds while `heatOut` watts leave it through
+  // the water it shares with the domain and its surface. The thermostat acts
+  // on the temperature at the start of the step. Written into `out`, which
+  // may be `state` itself: engines step their bath in place every sub-step.
+  static step(
+    settings: BathSettings,
+    state: BathState,
+    capacity: number,
+    heatOut: number,
+    dt: number,
+    out: BathState = { ...state }
+  ): BathState {
+    const tempF = state.temp * 9 / 5 + 32;
+    const error = settings.setpoint_f - tempF; // > 0 when the bath is cold
+    let output: number; // -1 (full chiller) to 1 (full heater)
+
+    if (settings.control === 'pid') {
+      const minutes = dt / 60;
+      const rate = state.lastTempF === null ? 0 : (tempF - state.lastTempF) / minutes;
+      // Integral clamped so it alone can at most saturate the output
+      const integralLimit = settings.pid_ki > 0 ? 1 / settings.pid_ki : 0;
+      out.integral = Math.max(-integralLimit, Math.min(integralLimit, state.integral + error * minutes));
+      output = settings.pid_kp * error + settings.pid_ki * out.integral - settings.pid_kd * rate;
+      out.lastTempF = tempF;
+    } else {
+      // Heater on below the band and off at the setpoint; the chiller mirrors it
+      const half = settings.deadband_f / 2;
+      if (error > half) out.heating = true;
+      else if (error <= 0) out.heating = false;
+      else out.heating = state.heating;
+      if (error < -half) out.chilling = settings.chiller_w > 0;
+      else if (error >= 0) out.chilling = false;
+      else out.chilling = state.chilling;
+      output = out.heating ? 1 : out.chilling ? -1 : 0;
+    }
+
+    const minOutput = settings.chiller_w > 0 ? -1 : 0;
+    output = Math.max(minOutput, Math.min(1, output));
+    out.heaterPower = output > 0 ? output * settings.heater_w : 0;
+    out.chillerPower = output < 0 ? -output * settings.chiller_w : 0;
+    out.heaterEnergy = state.heaterEnergy + out.heaterPower * dt;
+    out.chillerEnergy = state.chillerEnergy + out.chillerPower * dt;
+    out.temp = capacity > 0
+      ? state.temp + (out.heaterPower - out.chillerPower - heatOut) * dt / capacity
+      : state.temp;
+    return out;
+  }
+}
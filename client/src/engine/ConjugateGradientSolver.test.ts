@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { ConjugateGradientSolver } from './ConjugateGradientSolver';
+
+// 1D conduction chain of n nodes, each tied to a fixed 0 at both ends: the
+// symmetric positive-definite matrix of the steady-state solve
+const chain = (n: number) => {
+  const diag = new Float64Array(n).fill(2);
+  const multiply = (v: Float64Array, out: Float64Array) => {
+    for (let i = 0; i < n; i++) {
+      out[i] = 2 * v[i] - (i > 0 ? v[i - 1] : 0) - (i + 1 < n ? v[i + 1] : 0);
+    }
+  };
+  return { diag, multiply };
+};
+
+describe('ConjugateGradientSolver', () => {
+  it('solves a conduction chain to tolerance', () => {
+    const n = 50;
+    const { diag, multiply } = chain(n);
+    // Uniform heating: x_i = (i + 1)(n - i) / 2
+    const rhs = new Float64Array(n).fill(1);
+    const x = new Float64Array(n);
+    const result = ConjugateGradientSolver.solve(multiply, diag, rhs, x, 1e-12, 1000);
+    expect(result.residual).toBeLessThanOrEqual(1e-12);
+    expect(result.iterations).toBeLessThanOrEqual(n);
+    for (let i = 0; i < n; i++) {
+      expect(x[i]).toBeCloseTo((i + 1) * (n - i) / 2, 8);
+    }
+  });
+
+  it('returns the initial guess when it already solves the system', () => {
+    const n = 5;
+    const { diag, multiply } = chain(n);
+    const x = new Float64Array([3, 6, 7, 6, 3]);
+    const rhs = new Float64Array(n);
+    multiply(x, rhs);
+    const result = ConjugateGradientSolver.solve(multiply, diag, rhs, x, 1e-10, 100);
+    expect(result.iterations).toBe(0);
+    expect(Array.from(x)).toEqual([3, 6, 7, 6, 3]);
+  });
+
+  it('gives zero for a zero right-hand side', () => {
+    const { diag, multiply } = chain(4);
+    const x = new Float64Array([1, 2, 3, 4]);
+    const result = ConjugateGradientSolver.solve(multiply, diag, new Float64Array(4), x, 1e-10, 100);
+    expect(result).toEqual({ iterations: 0, residual: 0 });
+    expect(Array.from(x)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('stops at maxIterations', () => {
+    const n = 50;
+    const { diag, multiply } = chain(n);
+    const result = ConjugateGradientSolver.solve(multiply, diag, new Float64Array(n).fill(1), new Float64Array(n), 1e-12, 3);
+    expect(result.iterations).toBe(3);
+    expect(result.residual).toBeGreaterThan(1e-12);
+  });
+});
@@ -0,0 +1,63 @@
+export class ConjugateGradientSolver {
+  // Solve A x = rhs for a symmetric positive-definite A, given only as the
+  // product `multiply(v, out)` (out = A v), with Jacobi preconditioning by
+  // the diagonal `diag`. `x` holds the initial guess and receives the
+  // solution. Iterates until the residual norm falls below `tolerance` times
+  // the norm of rhs, or `maxIterations` have been taken. Returns the
+  // iterations taken and the final relative residual.
+  static solve(
+    multiply: (v: Float64Array, out: Float64Array) => void,
+    diag: Float64Array,
+    rhs: Float64Array,
+    x: Float64Array,
+    tolerance: number,
+    maxIterations: number
+  ): { iterations: number, residual: number } {
+    const n = rhs.length;
+    const r = new Float64Array(n);
+    const z = new Float64Array(n);
+    const p = new Float64Array(n);
+    const q = new Float64Array(n);
+
+    const rhsNorm = Math.sqrt(this.dot(rhs, rhs));
+    if (rhsNorm === 0) {
+      x.fill(0);
+      return { iterations: 0, residual: 0 };
+    }
+
+    multiply(x, q);
+    for (let i = 0; i < n; i++) {
+      r[i] = rhs[i] - q[i];
+      z[i] = r[i] / diag[i];
+      p[i] = z[i];
+    }
+    let rz = this.dot(r, z);
+    let residual = Math.sqrt(this.dot(r, r)) / rhsNorm;
+
+    let iterations = 0;
+    while (residual > tolerance && iterations < maxIterations) {
+      multiply(p, q);
+      const alpha = rz / this.dot(p, q);
+      for (let i = 0; i < n; i++) {
+        x[i] += alpha * p[i];
+        r[i] -= alpha * q[i];
+        z[i] = r[i] / diag[i];
+      }
+      const nextRz = this.dot(r, z);
+      const beta = nextRz / rz;
+      rz = nextRz;
+      for (let i = 0; i < n; i++) {
+        p[i] = z[i] + beta * p[i];
+      }
+      residual = Math.sqrt(this.dot(r, r)) / rhsNorm;
+      iterations++;
+    }
+    return { iterations, residual };
+  }
+
+  private static dot(a: Float64Array, b: Float64Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+  }
+}
@@ -0,0 +1,38 @@
+import { ContactResistance } from '../types';
+
+// Which part of a sample a cell belongs to; everything outside the sample
+// (fill, wall, air) is 'fill'
+export type SampleLayer = 'fill' | 'outer' | 'middle' | 'core';
+
+// Layers from the outside in. Interface n sits between SAMPLE_LAYERS[n - 1]
+// and SAMPLE_LAYERS[n].
+export const SAMPLE_LAYERS: SampleLayer[] = ['fill', 'outer', 'middle', 'core'];
+
+export class ContactResistanceModel {
+  // Total resistance (m²·K/W) of the interfaces crossed going from layer `a`
+  // to layer `b`. A face that skips a zero-thickness layer crosses both of
+  // its interfaces.
+  static between(contact: ContactResistance, a: SampleLayer, b: SampleLayer): number {
+    const from = Math.min(SAMPLE_LAYERS.indexOf(a), SAMPLE_LAYERS.indexOf(b));
+    const to = Math.max(SAMPLE_LAYERS.indexOf(a), SAMPLE_LAYERS.indexOf(b));
+    const interfaces = [0, contact.outer_fill, contact.middle_outer, contact.core_middle];
+    let total = 0;
+    for (let n = from + 1; n <= to; n++) total += interfaces[n];
+    return total;
+  }
+
+  // Conductance (W/K) of a face of `area` (m²) with conduction conductance
+  // `conductance` in series with the contact resistance between two cells
+  static apply(
+    conductance: number,
+    area: number,
+    layerA: SampleLayer,
+    layerB: SampleLayer,
+    contact: ContactResistance | null
+  ): number {
+    if (!contact || layerA === layerB || conductance <= 0) return conductance;
+    const resistance = this.between(contact, layerA, layerB);
+    if (resistance <= 0) return conductance;
+    return 1 / (1 / conductance + resistance / area);
+  }
+}
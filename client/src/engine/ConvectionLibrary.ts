@@ -0,0 +1,25 @@
+import { ConvectionSettings } from '../types';
+
+export class ConvectionLibrary {
+  // Typical film coefficients, W/(m²·K)
+  static getPresets(): Record<string, { wall_h: number, top_h: number }> {
+    return {
+      'Still Air': {
+        wall_h: 5, // Natural convection on a vertical wall
+        top_h: 7 // Natural convection from a warm upward-facing surface
+      },
+      'Moving Air': {
+        wall_h: 15, // Drafty room or light breeze
+        top_h: 18
+      },
+      'Forced-Air Lab': {
+        wall_h: 40, // Environmental chamber / fan-driven lab air
+        top_h: 45
+      }
+    };
+  }
+
+  static getDefaultSettings(): ConvectionSettings {
+    return { enabled: true, preset: 'Still Air', ...this.getPresets()['Still Air'] };
+  }
+}
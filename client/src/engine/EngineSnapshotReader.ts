@@ -0,0 +1,35 @@
+import { EngineSnapshot, BathReport, FillConductivityReport, EnergyReport } from '../types';
+
+// Read-back API shared by the plan, r-z and voxel engines
+export interface SnapshotSource {
+  getTime(): number;
+  getAmbientTemp(): number;
+  getSampleTemp(sampleId: string): number;
+  getSampleFrozenFraction(sampleId: string): number;
+  getFillMeltedFraction(): number;
+  getBathReport(): BathReport | null;
+  getFillConductivity(): FillConductivityReport | null;
+}
+
+export class EngineSnapshotReader {
+  // Readings for one graph point. `energy` is passed in by the plan view,
+  // the only engine that keeps an energy ledger.
+  static capture(engine: SnapshotSource, sampleIds: string[], energy: EnergyReport | null): EngineSnapshot {
+    const sampleTemps: Record<string, number> = {};
+    const frozenFractions: Record<string, number> = {};
+    for (const id of sampleIds) {
+      sampleTemps[id] = engine.getSampleTemp(id);
+      frozenFractions[id] = engine.getSampleFrozenFraction(id);
+    }
+    return {
+      time: engine.getTime(),
+      ambient_temperature: engine.getAmbientTemp(),
+      sample_temps: sampleTemps,
+      frozen_fractions: frozenFractions,
+      fill_melted: engine.getFillMeltedFraction(),
+      bath: engine.getBathReport(),
+      fill_conductivity: engine.getFillConductivity(),
+      energy
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import { HydrationSettings } from '../types';
+
+const GAS_CONSTANT = 8.314; // J/(mol·K)
+const REFERENCE_TEMP_K = 293.15; // Equivalent age is measured at 20 °C
+
+export class HydrationModel {
+  // Typical ordinary portland cement concrete
+  static getDefaultSettings(): HydrationSettings {
+    return {
+      enabled: true,
+      total_heat_kj_per_kg: 50, // ~460 kJ/kg cement at 350 kg/m³, 75% ultimate hydration
+      tau_hours: 15,
+      beta: 0.9,
+      activation_energy_kj_per_mol: 40
+    };
+  }
+
+  // Equivalent-age seconds accrued per real second at `tempC` (Arrhenius)
+  static ageRate(tempC: number, settings: HydrationSettings): number {
+    const activation = settings.activation_energy_kj_per_mol * 1000 / GAS_CONSTANT;
+    return Math.exp(activation * (1 / REFERENCE_TEMP_K - 1 / (tempC + 273.15)));
+  }
+
+  // Degree of hydration (0-1) at equivalent age `ageSeconds`
+  static degreeOfHydration(ageSeconds: number, settings: HydrationSettings): number {
+    if (ageSeconds <= 0) return 0;
+    return Math.exp(-Math.pow(settings.tau_hours * 3600 / ageSeconds, settings.beta));
+  }
+
+  // Heat released per kg of core (J) as the equivalent age advances
+  static heatReleased(fromAge: number, toAge: number, settings: HydrationSettings): number {
+    return settings.total_heat_kj_per_kg * 1000
+      * (this.degreeOfHydration(toAge, settings) - this.degreeOfHydration(fromAge, settings));
+  }
+}
@@ -0,0 +1,360 @@
+import { Container, ContainerPanel, Sample, PhaseChange, RCEstimate } from '../types';
+import { MaterialLibrary } from './MaterialLibrary';
+import { ConjugateGradientSolver } from './ConjugateGradientSolver';
+import { PhaseChangeModel, PhaseState } from './PhaseChangeModel';
+import { AmbientScheduleModel } from './AmbientScheduleModel';
+import { WeatherModel } from './WeatherModel';
+import { BathModel } from './BathModel';
+import { NaturalConvectionModel } from './NaturalConvectionModel';
+import { PIXELS_PER_INCH } from '../const';
+
+// Backward Euler steps across the estimate; implicit, so any length is stable
+const ESTIMATE_STEPS = 240;
+// Relative residual and iteration cap for each conjugate-gradient solve
+const CG_TOLERANCE = 1e-10;
+const CG_MAX_ITERATIONS = 1000;
+// Smallest argument passed to acosh, for samples touching a wall or each other
+const MIN_SHAPE_ARGUMENT = 1.0001;
+// Smallest ratio of a sample's share of the fill to its radius
+const MIN_SHARE_RATIO = 1.5;
+// Without convection the plan view's fixed air cells sit half a cell past
+// the outer wall face, at its default 5 cells per inch: 0.1"
+const AIR_GAP_M = 0.1 * 0.0254;
+
+// Conductance `g` (W/K) between nodes `a` and `b`
+interface Link {
+  a: number;
+  b: number;
+  g: number;
+}
+
+// A node holding latent heat, stepped on its enthalpy like a grid cell
+interface PhaseNode {
+  node: number;
+  phase: PhaseChange;
+  latent: number; // J
+  liquidFraction: number;
+}
+
+// Quick estimate of the plan-view run as a lumped RC network. Each sample is
+// one node (core water mass plus its mold layers) behind the conduction
+// resistance of its layers and contacts; the fill and the wall are one node
+// each. Samples couple to the fill and to each other through conduction
+// shape factors of the fill between them, so moving a sample towards a wall
+// or a neighbour changes its curve. Like the plan view, every node is a
+// column through the container depth that loses heat through the lid and
+// floor. Hydration, surface losses and the bath's thermostat are left out.
+export class LumpedRCModel {
+  // Sample temperatures over `durationSeconds` for the container drawn at
+  // the centre of a canvas of the given size
+  static estimate(
+    container: Container,
+    samples: Sample[],
+    durationSeconds: number,
+    canvasWidth: number,
+    canvasHeight: number
+  ): RCEstimate {
+    const f2c = (f: number) => (f - 32) * 5 / 9;
+    const c2f = (c: number) => c * 9 / 5 + 32;
+    const toM = (px: number) => (px / PIXELS_PER_INCH) * 0.0254;
+
+    const schedule = AmbientScheduleModel.sorted(container.ambient_schedule);
+    const ambientAt = (seconds: number) => {
+      const conditions = WeatherModel.conditionsAt(container.weather, seconds);
+      return f2c(conditions
+        ? conditions.dry_bulb_f
+        : AmbientScheduleModel.temperatureAt(schedule, container.ambient_temperature, seconds));
+    };
+    const ambientC = ambientAt(0);
+
+    // Every node is a column through the container depth (see GridPhysicsEngine.initialize)
+    const depth = container.depth > 0 ? toM(container.depth) : 1;
+    const convection = container.convection?.enabled ? container.convection : null;
+    const lidResistance = this.panelResistance(container.lid, ambientC);
+    const floorResistance = this.panelResistance(container.floor, ambientC);
+    // Loss (W/K) of a column of `area` and conductivity `k` up through the lid
+    // or open top and down through the floor (see GridPhysicsEngine.depthConductance)
+    const depthConductance = (area: number, k: number) => {
+      const panel = (resistance: number, h: number | undefined) => {
+        if (h !== undefined && h <= 0) return 0;
+        const total = (k > 0 ? (depth / 2) / k : 0) + resistance + (h !== undefined ? 1 / h : 0);
+        return total > 0 ? area / total : 0;
+      };
+      let g = 0;
+      if (lidResistance !== null) g += panel(lidResistance, convection?.top_h);
+      else if (convection) g += panel(0, convection.top_h);
+      if (floorResistance !== null) g += panel(floorResistance, convection?.wall_h);
+      return g;
+    };
+
+    // Fill: a controlled bath is held at its water temperature, otherwise it
+    // starts at the water, PCM charge or ambient temperature
+    const passiveWater = container.fill_type === 'Water' && BathModel.isPassive(container.bath);
+    const controlledBath = container.fill_type === 'Water' && !passiveWater;
+    let fillTempC = ambientC;
+    if (container.fill_type === 'Water' && container.water_temperature !== undefined) {
+      fillTempC = f2c(container.water_temperature);
+    } else if (container.fill_type === 'PCM' && container.pcm) {
+      fillTempC = f2c(container.pcm.initial_temperature_f);
+    }
+
+    // Container outline, in metres from its centre
+    const cx = canvasWidth / 2;
+    const cy = canvasHeight / 2;
+    const circle = container.shape === 'circle';
+    const halfW = toM(container.width) / 2;
+    const halfH = circle ? halfW : toM(container.height) / 2;
+    const wallThickness = (container.wall_thickness_in ?? 0) * 0.0254;
+    const fillArea = circle ? Math.PI * halfW ** 2 : 4 * halfW * halfH;
+    const perimeter = circle ? 2 * Math.PI * halfW : 4 * (halfW + halfH);
+    const outerPerimeter = circle
+      ? 2 * Math.PI * (halfW + wallThickness)
+      : 4 * (halfW + halfH + 2 * wallThickness);
+    const wallArea = circle
+      ? Math.PI * ((halfW + wallThickness) ** 2 - halfW ** 2)
+      : 4 * (halfW + wallThickness) * (halfH + wallThickness) - fillArea;
+
+    const n = samples.length;
+    const fill = n;
+    const wall = n + 1;
+    const count = n + 2;
+    const capacity = new Float64Array(count);
+    const temp = new Float64Array(count);
+    const fixed = new Uint8Array(count);
+    const ambientG = new Float64Array(count);
+    const links: Link[] = [];
+    const phaseNodes: PhaseNode[] = [];
+
+    // Samples
+    const fillProps = MaterialLibrary.getProperties(container.fill_material, fillTempC);
+    const kFill = fillProps.thermal_conductivity;
+    const radii: number[] = [];
+    const centres: { x: number, y: number }[] = [];
+    const internal: number[] = [];
+    let sampleArea = 0;
+    samples.forEach((s, i) => {
+      const startC = f2c(s.initial_temperature);
+      const outer = toM(s.radius);
+      // Layers thicker than the sample leave no core (or middle), as in the
+      // plan view, where the sample simply has no cells of that material
+      const middle = Math.max(outer - s.outer_thickness_in * 0.0254, 0);
+      const core = Math.max(middle - s.middle_thickness_in * 0.0254, 0);
+      const heightM = (s.size === '2x4' ? 4 : 8) * 0.0254;
+      const coreProps = MaterialLibrary.getProperties(s.core_material, startC);
+      const middleProps = MaterialLibrary.getProperties(s.middle_material, startC);
+      const outerProps = MaterialLibrary.getProperties(s.outer_material, startC);
+
+      // The core holds water_mass_lbs over the cylinder height, extruded
+      // through the depth like the plan view's core cells
+      const coreMass = s.water_mass_lbs * 0.453592 * depth / heightM;
+      capacity[i] = coreMass * coreProps.specific_heat
+        + middleProps.density * middleProps.specific_heat * Math.PI * (middle ** 2 - core ** 2) * depth
+        + outerProps.density * outerProps.specific_heat * Math.PI * (outer ** 2 - middle ** 2) * depth;
+      temp[i] = startC;
+      if (s.core_material.phase_change) {
+        const latent = coreMass * s.core_material.phase_change.latent_heat;
+        const liquidFraction = PhaseChangeModel.liquidFraction(startC, s.core_material.phase_change);
+        phaseNodes.push({ node: i, phase: s.core_material.phase_change, latent, liquidFraction });
+      }
+
+      // Mean core temperature to the sleeve's outer face: the innermost
+      // layer's own 1/(8πkL), each layer around it ln(r2/r1)/(2πkL) and
+      // every contact between layers that exist
+      const contact = s.contact_resistance;
+      const layers = [
+        { inner: 0, outer: core, k: coreProps.thermal_conductivity, contact: contact?.core_middle ?? 0 },
+        { inner: core, outer: middle, k: middleProps.thermal_conductivity, contact: contact?.middle_outer ?? 0 },
+        { inner: middle, outer, k: outerProps.thermal_conductivity, contact: contact?.outer_fill ?? 0 }
+      ];
+      let resistance = 0;
+      for (const layer of layers) {
+        if (layer.outer <= 0) continue;
+        if (layer.outer > layer.inner) {
+          resistance += layer.inner > 0
+            ? Math.log(layer.outer / layer.inner) / (2 * Math.PI * layer.k * depth)
+            : 1 / (8 * Math.PI * layer.k * depth);
+        }
+        resistance += layer.contact / (2 * Math.PI * layer.outer * depth);
+      }
+      internal.push(resistance);
+      radii.push(outer);
+      centres.push({ x: toM(s.x - cx), y: toM(s.y - cy) });
+      sampleArea += Math.PI * outer ** 2;
+      ambientG[i] = depthConductance(Math.PI * outer ** 2, coreProps.thermal_conductivity);
+    });
+
+    // Fill node. Each sample reaches it across its share of the fill (a
+    // concentric cylinder of radius r_f holding 1/n of the fill area,
+    // 2πL/ln(r_f/r)), and the fill reaches the wall node on its own
+    // (2kPL/(A/P), exact for a round container). A controlled bath is well
+    // mixed, so samples see it right at their sleeves.
+    const fillColumn = Math.max(fillArea - sampleArea, 0);
+    capacity[fill] = fillProps.density * fillProps.specific_heat * fillColumn * depth;
+    temp[fill] = fillTempC;
+    fixed[fill] = controlledBath ? 1 : 0;
+    const fillDepthG = controlledBath ? 0 : depthConductance(fillColumn, kFill);
+    const fillPhase = container.fill_material.phase_change;
+    if (fillPhase && !controlledBath) {
+      const latent = fillProps.density * fillColumn * depth * fillPhase.latent_heat;
+      phaseNodes.push({ node: fill, phase: fillPhase, latent, liquidFraction: PhaseChangeModel.liquidFraction(fillTempC, fillPhase) });
+    }
+    const shareRadius = Math.sqrt(fillArea / (Math.PI * Math.max(n, 1)));
+    const fillShapes = radii.map(r => 2 * Math.PI * depth / Math.log(Math.max(shareRadius / r, MIN_SHARE_RATIO)));
+    const wallGaps = centres.map((c, i) => Math.max(this.wallGap(c, circle, halfW, halfH), radii[i]));
+    const wallShapes = wallGaps.map((z, i) => this.wallShapeFactor(z, radii[i], circle, halfW, depth));
+    const sampleDepthG = Array.from(ambientG.subarray(0, n));
+    // Neighbours, through the fill between them
+    const neighbourShapes: { a: number, b: number, shape: number }[] = [];
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const d = Math.hypot(centres[j].x - centres[i].x, centres[j].y - centres[i].y);
+        const argument = (d ** 2 - radii[i] ** 2 - radii[j] ** 2) / (2 * radii[i] * radii[j]);
+        neighbourShapes.push({ a: i, b: j, shape: 2 * Math.PI * depth / Math.acosh(Math.max(argument, MIN_SHAPE_ARGUMENT)) });
+      }
+    }
+
+    // Wall node, behind half its thickness on each side, then the outside
+    // film: the convective one, or else conduction across the air to the
+    // plan view's fixed air cells (see GridPhysicsEngine.faceConductance)
+    const wallProps = MaterialLibrary.getProperties(container.wall_material, ambientC);
+    const kWall = wallProps.thermal_conductivity;
+    capacity[wall] = wallProps.density * wallProps.specific_heat * wallArea * depth;
+    temp[wall] = ambientC;
+    const kAir = MaterialLibrary.getMaterials()['Air'].thermal_conductivity;
+    const film = convection ? 1 / convection.wall_h : AIR_GAP_M / kAir; // m²·K/W
+    const halfWall = (p: number) => (wallThickness > 0 ? (wallThickness / 2) / (kWall * p * depth) : 0);
+    ambientG[wall] = 1 / (halfWall(outerPerimeter) + film / (outerPerimeter * depth)) + depthConductance(wallArea, kWall);
+    // Each sample also reaches ambient directly through the fill to its
+    // nearest wall, then through the patch of wall it faces (2z wide, z from
+    // its centre to the wall) and its film, so a sample near the wall cools
+    // faster without being short-circuited to all of it. Per unit area
+    // (m²·K/W):
+    const wallPatch = (wallThickness > 0 ? wallThickness / kWall : 0) + film;
+
+    // Links through the fill at conductivity `k`, `time` seconds into the
+    // run. A controlled bath holds the fill between samples at its own
+    // temperature, so they do not interact. Early on, heat has only soaked
+    // δ = 2√(αt) into the fill around a sample, so a sample sees the fill
+    // node across 2πL/ln(1 + δ/r) until that is less than its steady path.
+    // Latent heat spread over the melting range (at least 1 °C) slows the
+    // soak of a PCM.
+    const fillCapacity = fillProps.density * (fillProps.specific_heat
+      + (fillPhase ? fillPhase.latent_heat / Math.max(fillPhase.liquidus_c - fillPhase.solidus_c, 1) : 0));
+    const linkFill = (k: number, time: number) => {
+      links.length = 0;
+      if (controlledBath) {
+        for (let i = 0; i < n; i++) links.push({ a: i, b: fill, g: 1 / internal[i] });
+        return;
+      }
+      const fillToWall = k * perimeter * depth * 2 / (fillArea / perimeter);
+      const soaked = fillCapacity > 0 ? 2 * Math.sqrt(k / fillCapacity * time) : Infinity;
+      ambientG[fill] = fillDepthG;
+      for (let i = 0; i < n; i++) {
+        const soak = 2 * Math.PI * depth / Math.log(1 + soaked / radii[i]);
+        links.push({ a: i, b: fill, g: 1 / (internal[i] + 1 / (k * Math.max(fillShapes[i], soak))) });
+        ambientG[i] = sampleDepthG[i]
+          + 1 / (internal[i] + 1 / (k * wallShapes[i]) + wallPatch / (2 * wallGaps[i] * depth));
+      }
+      for (const s of neighbourShapes) {
+        links.push({ a: s.a, b: s.b, g: 1 / (internal[s.a] + 1 / (k * s.shape) + internal[s.b]) });
+      }
+      links.push({ a: fill, b: wall, g: 1 / (1 / fillToWall + halfWall(perimeter)) });
+    };
+
+    // Unstirred water carries heat by natural convection, folded into its
+    // conductivity from the largest sample-to-fill difference at each step
+    // (see GridPhysicsEngine.updateNaturalConvection)
+    const fillConvection = (time: number) => {
+      let deltaC = 0;
+      for (let i = 0; i < n; i++) deltaC = Math.max(deltaC, Math.abs(temp[i] - temp[fill]));
+      const props = MaterialLibrary.getProperties(container.fill_material, temp[fill]);
+      linkFill(NaturalConvectionModel.nusselt(deltaC, depth, temp[fill], props) * props.thermal_conductivity, time);
+    };
+
+    // March. Each step solves (C/dt + G) T = C/dt T_old + G_amb T_amb + links
+    // to fixed nodes; nodes with latent heat then settle their enthalpy.
+    const dt = durationSeconds / ESTIMATE_STEPS;
+    const diag = new Float64Array(count);
+    const rhs = new Float64Array(count);
+    const next = new Float64Array(count);
+    const multiply = (v: Float64Array, out: Float64Array) => {
+      for (let i = 0; i < count; i++) out[i] = diag[i] * v[i];
+      for (const link of links) {
+        if (fixed[link.a] || fixed[link.b]) continue;
+        out[link.a] -= link.g * v[link.b];
+        out[link.b] -= link.g * v[link.a];
+      }
+    };
+    const settled: PhaseState = { temp: 0, liquidFraction: 0 };
+
+    const estimate: RCEstimate = { times: [0], sample_temps: {} };
+    samples.forEach((s, i) => { estimate.sample_temps[s.id] = [c2f(temp[i])]; });
+    for (let step = 1; step <= ESTIMATE_STEPS; step++) {
+      const time = step * dt;
+      const airC = ambientAt(time);
+      if (passiveWater) fillConvection(time);
+      else linkFill(kFill, time);
+      for (let i = 0; i < count; i++) {
+        if (fixed[i]) {
+          diag[i] = 1;
+          rhs[i] = temp[i];
+          continue;
+        }
+        diag[i] = capacity[i] / dt + ambientG[i];
+        rhs[i] = capacity[i] / dt * temp[i] + ambientG[i] * airC;
+      }
+      for (const link of links) {
+        if (fixed[link.a] && fixed[link.b]) continue;
+        if (!fixed[link.a]) {
+          diag[link.a] += link.g;
+          if (fixed[link.b]) rhs[link.a] += link.g * temp[link.b];
+        }
+        if (!fixed[link.b]) {
+          diag[link.b] += link.g;
+          if (fixed[link.a]) rhs[link.b] += link.g * temp[link.a];
+        }
+      }
+      next.set(temp);
+      ConjugateGradientSolver.solve(multiply, diag, rhs, next, CG_TOLERANCE, CG_MAX_ITERATIONS);
+
+      for (const p of phaseNodes) {
+        const energy = capacity[p.node] * next[p.node] + p.latent * p.liquidFraction;
+        PhaseChangeModel.settle(energy, capacity[p.node], p.latent, p.phase, settled);
+        next[p.node] = settled.temp;
+        p.liquidFraction = settled.liquidFraction;
+      }
+      temp.set(next);
+
+      estimate.times.push(time);
+      samples.forEach((s, i) => { estimate.sample_temps[s.id].push(c2f(temp[i])); });
+    }
+    return estimate;
+  }
+
+  // Distance (m) from a sample centre to the nearest wall of the fill
+  private static wallGap(centre: { x: number, y: number }, circle: boolean, halfW: number, halfH: number): number {
+    return circle
+      ? halfW - Math.hypot(centre.x, centre.y)
+      : Math.min(halfW - Math.abs(centre.x), halfH - Math.abs(centre.y));
+  }
+
+  // Conduction shape factor (m) of the fill between a sample of radius `r`
+  // whose centre is `z` from the nearest wall: a cylinder beside a plane,
+  // 2πL/acosh(z/r), or off-centre (e = R - z) in a round container of radius
+  // R, 2πL/acosh((R² + r² - e²)/(2Rr))
+  private static wallShapeFactor(z: number, r: number, circle: boolean, radius: number, length: number): number {
+    const argument = circle
+      ? (radius ** 2 + r ** 2 - (radius - z) ** 2) / (2 * radius * r)
+      : z / r;
+    return 2 * Math.PI * length / Math.acosh(Math.max(argument, MIN_SHAPE_ARGUMENT));
+  }
+
+  // Conduction resistance per unit area (m²·K/W) of a lid or floor
+  // (see GridPhysicsEngine.panelResistance)
+  private static panelResistance(panel: ContainerPanel | undefined, tempC: number): number | null {
+    if (!panel) return null;
+    const k = MaterialLibrary.getProperties(panel.material, tempC).thermal_conductivity;
+    const thicknessM = panel.thickness_in * 0.0254;
+    return k > 0 ? thicknessM / k : 0;
+  }
+}
@@ -1,4 +1,4 @@
-import { Material } from '../types';
+import { Material, MaterialProperties, PropertyPoint, PCMSettings } from '../types';
 
 export class MaterialLibrary {
   static getMaterials(): Record<string, Material> {
@@ -22,14 +22,55 @@ export class MaterialLibrary {
         thermal_conductivity: 0.6,
         specific_heat: 4186, // High heat capacity
         density: 1000,
-        color: '#4FC3F7' // Light Blue
+        color: '#4FC3F7', // Light Blue
+        // Ice below the freezing range, then saturated liquid water to 212°F
+        conductivity_table: [
+          { temp_c: -0.5, value: 2.22 },
+          { temp_c: 0, value: 0.561 },
+          { temp_c: 20, value: 0.598 },
+          { temp_c: 40, value: 0.631 },
+          { temp_c: 60, value: 0.654 },
+          { temp_c: 80, value: 0.670 },
+          { temp_c: 100, value: 0.679 }
+        ],
+        specific_heat_table: [
+          { temp_c: -0.5, value: 2050 },
+          { temp_c: 0, value: 4217 },
+          { temp_c: 20, value: 4182 },
+          { temp_c: 40, value: 4179 },
+          { temp_c: 60, value: 4185 },
+          { temp_c: 80, value: 4197 },
+          { temp_c: 100, value: 4216 }
+        ],
+        density_table: [
+          { temp_c: -0.5, value: 917 },
+          { temp_c: 0, value: 999.8 },
+          { temp_c: 20, value: 998.2 },
+          { temp_c: 40, value: 992.2 },
+          { temp_c: 60, value: 983.2 },
+          { temp_c: 80, value: 971.8 },
+          { temp_c: 100, value: 958.4 }
+        ],
+        phase_change: {
+          latent_heat: 334000,
+          solidus_c: -0.5, // A narrow range keeps the enthalpy curve smooth
+          liquidus_c: 0
+        }
       },
       'Phenolic Foam': {
         name: 'Phenolic Foam',
         thermal_conductivity: 0.03, // Excellent insulator
         specific_heat: 1400,
         density: 50, // Very light
-        color: '#FFF59D' // Light Yellow
+        color: '#FFF59D', // Light Yellow
+        // Conduction through the cell gas and radiation rise with temperature
+        conductivity_table: [
+          { temp_c: 0, value: 0.027 },
+          { temp_c: 25, value: 0.030 },
+          { temp_c: 50, value: 0.033 },
+          { temp_c: 100, value: 0.040 },
+          { temp_c: 150, value: 0.048 }
+        ]
       },
       'Air': {
         name: 'Air',
@@ -45,6 +86,13 @@ export class MaterialLibrary {
         density: 7850,
         color: '#607D8B' // Blue Grey
       },
+      'Plywood': {
+        name: 'Plywood',
+        thermal_conductivity: 0.13,
+        specific_heat: 1210,
+        density: 545,
+        color: '#C8A165' // Light Brown
+      },
       'Copper': {
         name: 'Copper',
         thermal_conductivity: 385,
@@ -58,4 +106,90 @@ export class MaterialLibrary {
   static getDefaultMaterial(): Material {
     return this.getMaterials()['Aluminum'];
   }
+
+  // A saved material with its library entry's tables and phase change.
+  // Files saved before those existed carry only the constants; one whose
+  // constants still match the library is taken as that library material,
+  // while an edited one (which drops its tables) is kept as saved. Loaded
+  // files keep their constants until the user opts in to this.
+  static relink(material: Material): Material {
+    const library = this.getMaterials()[material.name];
+    if (!library) return material;
+    const unedited = library.thermal_conductivity === material.thermal_conductivity
+      && library.specific_heat === material.specific_heat
+      && library.density === material.density;
+    return unedited ? library : material;
+  }
+
+  // Does relink() give `material` tables or a phase change it lacks?
+  static lacksLibraryTables(material: Material): boolean {
+    const library = this.relink(material);
+    if (library === material) return false;
+    return (this.hasPropertyTables(library) && !this.hasPropertyTables(material))
+      || (!!library.phase_change && !material.phase_change);
+  }
+
+  // Paraffin blend melting near the 73°F standard curing temperature
+  static getDefaultPCMSettings(): PCMSettings {
+    return {
+      melting_point_f: 77,
+      melting_range_f: 4,
+      latent_heat_kj_per_kg: 180,
+      initial_temperature_f: 70,
+      solid: { thermal_conductivity: 0.24, specific_heat: 1800, density: 880 },
+      liquid: { thermal_conductivity: 0.18, specific_heat: 2400, density: 770 }
+    };
+  }
+
+  // Fill material for a PCM: solid properties below the melting range, liquid
+  // above it, blended linearly across it
+  static createPCMMaterial(pcm: PCMSettings): Material {
+    const liquidusC = (pcm.melting_point_f - 32) * 5 / 9;
+    const solidusC = liquidusC - Math.max(pcm.melting_range_f, 0.1) * 5 / 9;
+    const table = (key: keyof MaterialProperties): PropertyPoint[] => [
+      { temp_c: solidusC, value: pcm.solid[key] },
+      { temp_c: liquidusC, value: pcm.liquid[key] }
+    ];
+    return {
+      name: 'PCM',
+      ...pcm.solid,
+      color: '#CE93D8', // Light Purple
+      conductivity_table: table('thermal_conductivity'),
+      specific_heat_table: table('specific_heat'),
+      density_table: table('density'),
+      phase_change: {
+        latent_heat: pcm.latent_heat_kj_per_kg * 1000,
+        solidus_c: solidusC,
+        liquidus_c: liquidusC
+      }
+    };
+  }
+
+  static hasPropertyTables(material: Material): boolean {
+    return !!(material.conductivity_table || material.specific_heat_table || material.density_table);
+  }
+
+  // Properties at `tempC`, read from the tables where a material has them
+  static getProperties(material: Material, tempC: number): MaterialProperties {
+    return {
+      thermal_conductivity: this.interpolate(material.conductivity_table, tempC, material.thermal_conductivity),
+      specific_heat: this.interpolate(material.specific_heat_table, tempC, material.specific_heat),
+      density: this.interpolate(material.density_table, tempC, material.density)
+    };
+  }
+
+  // Piecewise-linear in temperature, holding the end values beyond the table
+  static interpolate(table: PropertyPoint[] | undefined, tempC: number, fallback: number): number {
+    if (!table || table.length === 0) return fallback;
+    if (tempC <= table[0].temp_c) return table[0].value;
+    for (let i = 1; i < table.length; i++) {
+      const hi = table[i];
+      if (tempC <= hi.temp_c) {
+        const lo = table[i - 1];
+        const f = (tempC - lo.temp_c) / (hi.temp_c - lo.temp_c);
+        return lo.value + f * (hi.value - lo.value);
+      }
+    }
+    return table[table.length - 1].value;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { Container, Sample, SolverSettings, MeshStudyLevel, MeshStudyReport } from '../types';
+import { GridPhysicsEngine } from './PhysicsEngine';
+
+// Simulated time per advance() call. Natural convection and wind films are
+// refreshed once per call, so the study keeps them close to an interactive run.
+const STUDY_CHUNK_S = 600;
+
+export class MeshConvergenceStudy {
+  // Half, current and double resolution
+  static levelsAround(cellsPerInch: number): number[] {
+    return [cellsPerInch / 2, cellsPerInch, cellsPerInch * 2];
+  }
+
+  // Rerun the plan-view setup from its initial temperatures on each mesh and
+  // compare the sample temperatures after `durationHours`. Every mesh takes
+  // the same ADI steps without sleep, so the differences are spatial error
+  // alone. `onChunk` is awaited after every chunk with the fraction of the
+  // study done; it returns false to cancel, and the study resolves to null.
+  static async run(
+    container: Container,
+    samples: Sample[],
+    canvasWidth: number,
+    canvasHeight: number,
+    solver: SolverSettings,
+    durationHours: number,
+    levels: number[],
+    onChunk: (fraction: number) => Promise<boolean> = async () => true
+  ): Promise<MeshStudyReport | null> {
+    const seconds = Math.max(0, durationHours) * 3600;
+    const results: MeshStudyLevel[] = [];
+    // Work grows with the cell count, so each level is weighted by cells
+    // per inch squared
+    const sorted = [...levels].sort((a, b) => a - b);
+    const totalWork = sorted.reduce((sum, level) => sum + level ** 2, 0);
+    let workDone = 0;
+
+    for (const cellsPerInch of sorted) {
+      const engine = new GridPhysicsEngine();
+      engine.setSolverSettings({ ...solver, mode: 'adi', cells_per_inch: cellsPerInch, sleep_rate_f_per_hour: undefined });
+      engine.initialize(container, samples, canvasWidth, canvasHeight);
+      for (let t = 0; t < seconds; t += STUDY_CHUNK_S) {
+        engine.advance(Math.min(STUDY_CHUNK_S, seconds - t));
+        const fraction = (workDone + cellsPerInch ** 2 * Math.min(1, (t + STUDY_CHUNK_S) / seconds)) / totalWork;
+        if (!(await onChunk(fraction))) return null;
+      }
+      workDone += cellsPerInch ** 2;
+
+      const sampleTemps: Record<string, number> = {};
+      for (const s of samples) sampleTemps[s.id] = engine.getSampleTemp(s.id);
+      const previous = results[results.length - 1];
+      const mesh = engine.getMeshSize();
+      results.push({
+        cells_per_inch: cellsPerInch,
+        cell_count: mesh.width * mesh.height,
+        sample_temps: sampleTemps,
+        max_change: previous
+          ? Math.max(0, ...samples.map(s => Math.abs(sampleTemps[s.id] - previous.sample_temps[s.id])))
+          : null
+      });
+    }
+    return { duration_hours: durationHours, levels: results };
+  }
+}
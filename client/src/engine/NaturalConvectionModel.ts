@@ -0,0 +1,55 @@
+import { MaterialProperties, PropertyPoint } from '../types';
+import { MaterialLibrary } from './MaterialLibrary';
+
+const GRAVITY = 9.81; // m/s²
+
+// Liquid water by temperature (°C). Expansion changes sign at the 4 °C
+// density maximum; only its magnitude drives the flow.
+const EXPANSION_TABLE: PropertyPoint[] = [ // 1/K
+  { temp_c: 0, value: -6.8e-5 },
+  { temp_c: 4, value: 0 },
+  { temp_c: 10, value: 8.8e-5 },
+  { temp_c: 20, value: 2.07e-4 },
+  { temp_c: 30, value: 3.03e-4 },
+  { temp_c: 40, value: 3.85e-4 },
+  { temp_c: 50, value: 4.57e-4 },
+  { temp_c: 60, value: 5.22e-4 },
+  { temp_c: 80, value: 6.43e-4 },
+  { temp_c: 100, value: 7.52e-4 }
+];
+const VISCOSITY_TABLE: PropertyPoint[] = [ // Kinematic, m²/s
+  { temp_c: 0, value: 1.79e-6 },
+  { temp_c: 10, value: 1.31e-6 },
+  { temp_c: 20, value: 1.0e-6 },
+  { temp_c: 30, value: 0.80e-6 },
+  { temp_c: 40, value: 0.66e-6 },
+  { temp_c: 50, value: 0.55e-6 },
+  { temp_c: 60, value: 0.47e-6 },
+  { temp_c: 80, value: 0.36e-6 },
+  { temp_c: 100, value: 0.29e-6 }
+];
+
+// Natural convection in an unstirred water fill, folded into an effective
+// conductivity k_eff = Nu * k so the conduction solvers carry it unchanged
+export class NaturalConvectionModel {
+  // Rayleigh number for a temperature difference `deltaC` over a height
+  // `lengthM` of water at `tempC`
+  static rayleigh(deltaC: number, lengthM: number, tempC: number, props: MaterialProperties): number {
+    const expansion = Math.abs(MaterialLibrary.interpolate(EXPANSION_TABLE, tempC, 0));
+    const viscosity = MaterialLibrary.interpolate(VISCOSITY_TABLE, tempC, 1e-6);
+    const diffusivity = props.thermal_conductivity / (props.density * props.specific_heat);
+    return GRAVITY * expansion * Math.abs(deltaC) * lengthM ** 3 / (viscosity * diffusivity);
+  }
+
+  // Enclosure Nusselt number (Catton): Nu = 0.18 (Pr / (0.2 + Pr) Ra)^0.29,
+  // never below pure conduction. Ice does not convect, so a partly frozen
+  // cell is blended by its liquid fraction.
+  static nusselt(deltaC: number, lengthM: number, tempC: number, props: MaterialProperties, liquidFraction: number = 1): number {
+    const viscosity = MaterialLibrary.interpolate(VISCOSITY_TABLE, tempC, 1e-6);
+    const diffusivity = props.thermal_conductivity / (props.density * props.specific_heat);
+    const prandtl = viscosity / diffusivity;
+    const driving = prandtl / (0.2 + prandtl) * this.rayleigh(deltaC, lengthM, tempC, props);
+    const liquidNu = Math.max(1, 0.18 * Math.pow(driving, 0.29));
+    return 1 + (liquidNu - 1) * Math.max(0, Math.min(1, liquidFraction));
+  }
+}
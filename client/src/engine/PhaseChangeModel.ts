@@ -0,0 +1,40 @@
+import { PhaseChange } from '../types';
+
+// Enthalpy formulation of freezing and thawing. A cell's stored energy is
+// C * T + L * f (C sensible capacity, L latent heat of its mass, f liquid
+// fraction). The conduction step moves energy at the sensible capacity; the
+// new state is then recovered from the enthalpy curve, so latent heat is
+// released or absorbed exactly and the cell holds in the freezing range
+// until it is used up.
+export interface PhaseState {
+  temp: number; // Celsius
+  liquidFraction: number;
+}
+
+export class PhaseChangeModel {
+  static liquidFraction(tempC: number, phase: PhaseChange): number {
+    if (tempC <= phase.solidus_c) return 0;
+    if (tempC >= phase.liquidus_c) return 1;
+    return (tempC - phase.solidus_c) / (phase.liquidus_c - phase.solidus_c);
+  }
+
+  // Temperature and liquid fraction holding `energy` (J, relative to 0 °C
+  // and fully frozen) in a cell of sensible capacity `capacity` (J/K) and
+  // latent heat `latent` (J). Written into `out`, which hot loops reuse.
+  static settle(energy: number, capacity: number, latent: number, phase: PhaseChange, out: PhaseState = { temp: 0, liquidFraction: 0 }): PhaseState {
+    const solidEnd = capacity * phase.solidus_c;
+    const liquidStart = capacity * phase.liquidus_c + latent;
+    if (energy <= solidEnd) {
+      out.temp = energy / capacity;
+      out.liquidFraction = 0;
+    } else if (energy >= liquidStart) {
+      out.temp = (energy - latent) / capacity;
+      out.liquidFraction = 1;
+    } else {
+      const f = (energy - solidEnd) / (liquidStart - solidEnd);
+      out.temp = phase.solidus_c + f * (phase.liquidus_c - phase.solidus_c);
+      out.liquidFraction = f;
+    }
+    return out;
+  }
+}
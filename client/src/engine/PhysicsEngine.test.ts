@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { GridPhysicsEngine } from './PhysicsEngine';
+import { MaterialLibrary } from './MaterialLibrary';
+import { ConvectionLibrary } from './ConvectionLibrary';
+import { Container, Sample, SolverSettings } from '../types';
+
+const materials = MaterialLibrary.getMaterials();
+
+const sample = (id: string, x: number, y: number): Sample => ({
+  id,
+  name: id,
+  x,
+  y,
+  radius: 40,
+  size: '4x8',
+  outer_material: materials['Aluminum'],
+  middle_material: materials['Plastic (PVC)'],
+  core_material: materials['Water'],
+  outer_thickness_in: 0.1,
+  middle_thickness_in: 0.1,
+  water_mass_lbs: 3.5,
+  initial_temperature: 110,
+  temperature: 110
+} as Sample);
+
+const container: Container = {
+  shape: 'rectangle',
+  width: 240,
+  height: 240,
+  depth: 160,
+  fill_material: materials['Phenolic Foam'],
+  fill_type: 'Phenolic Foam',
+  water_temperature: 70,
+  wall_material: materials['Plastic (PVC)'],
+  wall_thickness_in: 0.5,
+  ambient_temperature: 70,
+  convection: ConvectionLibrary.getDefaultSettings()
+};
+
+// A 12" x 12" canvas around the 12" x 12" container
+const run = (solver: SolverSettings, seconds: number) => {
+  const engine = new GridPhysicsEngine();
+  engine.setSolverSettings(solver);
+  engine.initialize(container, [sample('a', 240, 240)], 480, 480);
+  engine.advance(seconds);
+  return engine;
+};
+
+describe('GridPhysicsEngine energy balance', () => {
+  it('balances to round-off in explicit mode', () => {
+    const report = run({ mode: 'explicit', time_step_min: 5 }, 1800).getEnergyReport();
+    expect(report.domain_change).toBeLessThan(0);
+    expect(report.relative_error).toBeLessThan(1e-9);
+  });
+
+  it('balances to round-off in ADI mode', () => {
+    const report = run({ mode: 'adi', time_step_min: 5 }, 7200).getEnergyReport();
+    expect(report.domain_change).toBeLessThan(0);
+    expect(report.relative_error).toBeLessThan(1e-9);
+  });
+
+  // Blocks far from the sample fall asleep; the heat their awake neighbours
+  // exchange with them must still be booked
+  it('balances to round-off with block sleep on', () => {
+    for (const mode of ['explicit', 'adi'] as const) {
+      const report = run({ mode, time_step_min: 5, sleep_rate_f_per_hour: 1 }, 7200).getEnergyReport();
+      expect(report.relative_error).toBeLessThan(1e-9);
+    }
+  });
+
+  it('keeps symmetric samples level with block sleep on', () => {
+    const engine = new GridPhysicsEngine();
+    engine.setSolverSettings({ mode: 'adi', time_step_min: 5, sleep_rate_f_per_hour: 1 });
+    engine.initialize(container, [sample('a', 180, 240), sample('b', 300, 240)], 480, 480);
+    engine.advance(7200);
+    expect(Math.abs(engine.getSampleTemp('a') - engine.getSampleTemp('b'))).toBeLessThan(0.01);
+  });
+});
@@ -1,26 +1,157 @@
-import { Container, Sample, Material } from '../types';
+import { Container, ContainerPanel, Sample, Material, SolverSettings, EnergyReport, SteadyStateReport, ConvectionSettings, HydrationSettings, PhaseChange, ContactResistance, AmbientSchedule, WeatherSettings, BathSettings, BathReport, FillConductivityReport, SurfaceLossSettings } from '../types';
 import { MaterialLibrary } from './MaterialLibrary';
-import { PIXELS_PER_INCH } from '../const';
+import { TridiagonalSolver } from './TridiagonalSolver';
+import { ConjugateGradientSolver } from './ConjugateGradientSolver';
+import { HydrationModel } from './HydrationModel';
+import { PhaseChangeModel, PhaseState } from './PhaseChangeModel';
+import { ContactResistanceModel, SampleLayer, SAMPLE_LAYERS } from './ContactResistanceModel';
+import { AmbientScheduleModel } from './AmbientScheduleModel';
+import { WeatherModel, WeatherConditions } from './WeatherModel';
+import { BathModel, BathState } from './BathModel';
+import { NaturalConvectionModel } from './NaturalConvectionModel';
+import { SurfaceLossModel, SurfaceFlux, SurfaceCooling } from './SurfaceLossModel';
+import { PIXELS_PER_INCH, MM_PER_INCH } from '../const';
 
 // Constants
-const PIXEL_SIZE_MM = 4; // 1 grid cell = 4x4 screen pixels
-const PIXEL_AREA = (PIXEL_SIZE_MM / 1000) ** 2; // m²
-const TIME_STEP = 0.05; // Seconds
-
-interface GridCell {
-  temp: number; // Celsius
-  nextTemp: number; // Celsius
-  material: Material;
-  isBoundary: boolean; // Is this a fixed boundary condition?
-}
+const DEFAULT_CELLS_PER_INCH = 5;
+const DISPLAY_CELL_PX = 4; // getGrid() resamples onto a 4px canvas grid
+// Fraction of the explicit stability limit used for each sub-step
+const STABILITY_SAFETY_FACTOR = 0.9;
+// Temperature drift (°C) before a cell's table properties are re-evaluated
+const PROPERTY_TOLERANCE_C = 0.05;
+// Sleep blocks are squares of this many cells on a side
+const SLEEP_BLOCK_CELLS = 8;
+// Steps a sleeping block waits before it is stepped again to recheck its change
+const SLEEP_CHECK_STEPS = 20;
+// Steady-state solve: passes stop once no cell moves by more than this (°C).
+// Properties and Nusselt numbers only move in steps (PROPERTY_TOLERANCE_C,
+// NUSSELT_TOLERANCE), so a tighter bound can cycle without converging.
+const STEADY_TOLERANCE_C = 0.01;
+const STEADY_MAX_PASSES = 50;
+// Relative residual and iteration cap for each conjugate-gradient solve
+const CG_TOLERANCE = 1e-10;
+const CG_MAX_ITERATIONS = 20000;
+// Change in the wind-driven film coefficient (W/(m²·K)) before faces are relinked
+const WIND_FILM_TOLERANCE = 0.25;
+// Relative change in a water cell's Nusselt number before its faces are relinked
+const NUSSELT_TOLERANCE = 0.05;
 
+// Plan-view model: every cell is a column extruded through the container
+// depth. Cells are stored in flat typed arrays indexed y * width + x, with a
+// double-buffered temperature, so stepping allocates nothing; temperature
+// grids are only built when getGridBuffer() or getGrid() asks for them.
+// Fixed cells hold the same temperature in both buffers, so stepping visits
+// only the updated cells.
 export class GridPhysicsEngine {
-  private grid: GridCell[][] = [];
   private width: number = 0;
   private height: number = 0;
-  private time: number = 0;
+  // The mesh is laid out in physical units: square cells of `cellSize`
+  // metres (`cellPx` canvas pixels), with cell (0, 0) starting at canvas
+  // point (originX, originY)
+  private cellSize: number = 0; // m
+  private cellArea: number = 0; // m²
+  private cellPx: number = 0;
+  private originX: number = 0;
+  private originY: number = 0;
+  private canvasWidth: number = 0;
+  private canvasHeight: number = 0;
+  private temp = new Float64Array(0); // Celsius
+  private nextTemp = new Float64Array(0);
+  private capacity = new Float64Array(0); // rho * cp * volume (J/K)
+  private conductivity = new Float64Array(0); // At the current temperature (W/(m·K)), times nusselt
+  private nusselt = new Float64Array(0); // Natural-convection enhancement (1 = conduction only)
+  private condEast = new Float64Array(0); // Face conductance to the cell at x+1 (W/K)
+  private condSouth = new Float64Array(0); // Face conductance to the cell at y+1 (W/K)
+  private condAmbient = new Float64Array(0); // Conductance to ambient through the top and floor (W/K)
+  private latentHeat = new Float64Array(0); // Latent heat of the cell's mass (J), 0 = no phase change
+  private liquidFraction = new Float64Array(0); // 1 = fully liquid
+  private fixed = new Uint8Array(0); // 1 = fixed boundary condition
+  private outside = new Uint8Array(0); // 1 = outside the container (ambient air)
+  private layer = new Uint8Array(0); // Index into SAMPLE_LAYERS
+  private sampleIndex = new Int16Array(0); // Index into `samples`, -1 = none
+  private contacts: (ContactResistance | null)[] = []; // Interface resistances by sample index
+  // Updated cells grouped by sleep block: block b owns activeCells[n] for
+  // blockStart[b] <= n < blockStart[b + 1]
+  private activeCells = new Int32Array(0);
+  private blockStart = new Int32Array(0);
+  private cellBlock = new Int32Array(0); // Sleep block of every cell
+  private blocksX: number = 0;
+  private blockAwake = new Uint8Array(0); // 0 = asleep: neither conducts nor takes up sources
+  private blockIdle = new Uint16Array(0); // Steps asleep since the last recheck
+  private blockChange = new Float64Array(0); // Largest cell change over the last step (°C)
+  // Heat (J) awake neighbours have passed to each sleeping cell, taken up
+  // when its block wakes
+  private sleepHeat = new Float64Array(0);
+  // Runs of consecutive updated cells along the rows and columns, as
+  // (first cell, length) pairs, for the ADI sweeps
+  private rowRuns = new Int32Array(0);
+  private columnRuns = new Int32Array(0);
+  private time: number = 0; // Simulated seconds since initialize()
+  private cellDepth: number = 1; // Out-of-plane extent of each cell (m)
+  private ambientC: number = 0;
+  private ambientSchedule: AmbientSchedule | undefined;
+  private meanAmbientF: number = 0;
+  private ambientCells: number[] = []; // Outside air that follows the schedule
+  private convection: ConvectionSettings | null = null; // null = fixed air cells
+  private stillAir: ConvectionSettings | null = null; // Films before any wind
+  private weather: WeatherSettings | undefined;
+  // Parsed start of the weather run and the conditions reused every sub-step
+  private weatherStart = 0;
+  private weatherConditions: WeatherConditions = { dry_bulb_f: 0, wind_speed_mph: 0, solar_w_m2: 0 };
+  private solarFlux: number = 0; // Absorbed by the open top (W/m²)
+  private lidCells: {idx: number, openWater: boolean}[] = []; // Updated cells under the open top
+  // Conduction resistance (m²·K/W) of a fitted lid and floor, null = open top
+  // and a floor that passes no heat
+  private lidResistance: number | null = null;
+  private floorResistance: number | null = null;
+  private surfaceLosses: SurfaceLossSettings | null = null; // Radiation / evaporation
+  // Thermostat bath: its fill cells are fixed during a step and follow the
+  // lumped bath temperature between steps. null = fixed bath or no water.
+  private bath: BathSettings | null = null;
+  private bathState: BathState | null = null;
+  private bathCells: number[] = [];
+  private bathCapacity: number = 0; // J/K
+  private bathConductance: number = 0; // Through the top and floor to ambient (W/K)
+  private stableTimeStep: number = Infinity; // Largest stable explicit step (s)
+  private solver: SolverSettings = { mode: 'explicit', time_step_min: 5 };
+  // Scratch arrays for the ADI line solves, sized to the longest grid line
+  private lineBuffers = {
+    lower: new Float64Array(0),
+    diag: new Float64Array(0),
+    upper: new Float64Array(0),
+    rhs: new Float64Array(0),
+    solution: new Float64Array(0),
+    scratch: new Float64Array(0),
+    links: new Float64Array(0),
+    fixed: new Uint8Array(0)
+  };
+  // Reused results of the per-cell phase and surface-loss updates
+  private phaseState: PhaseState = { temp: 0, liquidFraction: 0 };
+  private surfaceFlux: SurfaceFlux = { radiation: 0, evaporation: 0, radiationSlope: 0, evaporationSlope: 0 };
+  private surfaceCooling: SurfaceCooling = { change: 0, radiation: 0, evaporation: 0 };
   // Cache sample ID to grid cells mapping for fast temperature lookup
-  private sampleCells: Map<string, {x: number, y: number}[]> = new Map();
+  private sampleCells: Map<string, number[]> = new Map();
+  // Fill cells that are updated (excludes a controlled water bath)
+  private fillCells: number[] = [];
+  // Passive water fill cells whose conductivity carries natural convection
+  private convectionCells: {idx: number, material: Material}[] = [];
+  private wallCells: number[] = [];
+  // Updated cells whose material has temperature tables, with the
+  // temperature their properties were last evaluated at
+  private variableCells: {idx: number, material: Material, evaluatedAt: number}[] = [];
+  // Updated cells that can freeze
+  private phaseCells: {idx: number, phase: PhaseChange}[] = [];
+  // Core cells releasing hydration heat, with their equivalent age (s)
+  private hydrationCells: {idx: number, mass: number, age: number, settings: HydrationSettings}[] = [];
+  // Energy ledger (J), stored energy measured relative to frozen material at 0 °C
+  private initialEnergy: number = 0;
+  // Heat (J) the domain holds across the temperature span at the start of
+  // the ledger, so that a nearly closed run is not judged against zero
+  private energyScale: number = 0;
+  private boundaryHeatIn: number = 0; // Net heat delivered by boundary cells
+  private heatGenerated: number = 0; // Hydration heat released in the domain
+  private radiationLoss: number = 0; // Radiated from the open top
+  private evaporationLoss: number = 0; // Carried off by evaporating water
 
   constructor() {}
 
@@ -29,23 +160,88 @@ export class GridPhysicsEngine {
   // Convert C to F
   c2f(c: number): number { return c * 9 / 5 + 32; }
 
-  // Initialize the grid based on container and samples
+  // Initialize the grid based on container and samples. The canvas size only
+  // locates the container (drawn at the canvas centre) relative to the
+  // samples; the mesh itself follows the solver's cells per inch.
   initialize(container: Container, samples: Sample[], canvasWidth: number, canvasHeight: number) {
-    // Downsample by 4 for performance (4x4 pixels = 1 grid cell)
-    this.width = Math.ceil(canvasWidth / 4); 
-    this.height = Math.ceil(canvasHeight / 4);
-    this.grid = [];
+    const cellsPerInch = this.solver.cells_per_inch ?? DEFAULT_CELLS_PER_INCH;
+    this.cellSize = MM_PER_INCH / cellsPerInch / 1000;
+    this.cellArea = this.cellSize ** 2;
+    this.cellPx = PIXELS_PER_INCH / cellsPerInch;
+    this.canvasWidth = canvasWidth;
+    this.canvasHeight = canvasHeight;
     this.time = 0;
     this.sampleCells.clear();
+    this.fillCells = [];
+    this.wallCells = [];
+    this.hydrationCells = [];
+    this.variableCells = [];
+    this.phaseCells = [];
+    this.bathCells = [];
+    this.convectionCells = [];
+    const passiveWater = container.fill_type === 'Water' && BathModel.isPassive(container.bath);
+    this.bath = container.fill_type === 'Water' && BathModel.isLumped(container.bath) ? container.bath! : null;
+    // Every plan-view cell is a column extruded through the container depth
+    this.cellDepth = container.depth > 0 ? (container.depth / PIXELS_PER_INCH) * 0.0254 : 1;
+
+    this.ambientSchedule = AmbientScheduleModel.sorted(container.ambient_schedule);
+    this.meanAmbientF = container.ambient_temperature;
+    this.weather = container.weather;
+    this.weatherStart = WeatherModel.isActive(this.weather) ? WeatherModel.startTimestamp(this.weather!) : 0;
+    this.ambientCells = [];
+    this.lidCells = [];
+    const ambientC = this.f2c(this.ambientAt(0));
+    this.ambientC = ambientC;
+    this.stillAir = container.convection?.enabled ? container.convection : null;
+    this.convection = this.stillAir;
+    this.surfaceLosses = SurfaceLossModel.isActive(container.surface_losses) ? container.surface_losses! : null;
+    this.lidResistance = this.panelResistance(container.lid, ambientC);
+    this.floorResistance = this.panelResistance(container.floor, ambientC);
+    this.solarFlux = 0;
+    const conditions = WeatherModel.conditionsAt(this.weather, 0, this.weatherStart, this.weatherConditions);
+    if (conditions) {
+      if (this.stillAir) this.convection = WeatherModel.windFilm(this.stillAir, conditions.wind_speed_mph);
+      this.solarFlux = conditions.solar_w_m2 * this.weather!.solar_absorptance;
+    }
+    // Use water temperature for fill material if water is selected, the
+    // charge temperature for a PCM, otherwise use ambient
+    let fillTempC = ambientC;
+    if (container.fill_type === 'Water' && container.water_temperature !== undefined) {
+      fillTempC = this.f2c(container.water_temperature);
+    } else if (container.fill_type === 'PCM' && container.pcm) {
+      fillTempC = this.f2c(container.pcm.initial_temperature_f);
+    }
 
-    const ambientC = this.f2c(container.ambient_temperature);
-    // Use water temperature for fill material if water is selected, otherwise use ambient
-    const fillTempC = container.fill_type === 'Water' && container.water_temperature !== undefined
-      ? this.f2c(container.water_temperature)
-      : ambientC;
+    // The wall frame is built outward from the fill boundary
+    const wallPx = (container.wall_thickness_in ?? 0) * PIXELS_PER_INCH;
+
+    // Fill and walls, plus one ring of outside air on every side
+    const widthPx = container.width + 2 * wallPx;
+    const heightPx = (container.shape === 'circle' ? container.width : container.height) + 2 * wallPx;
+    this.width = Math.ceil(widthPx / this.cellPx) + 2;
+    this.height = Math.ceil(heightPx / this.cellPx) + 2;
+    this.originX = (canvasWidth - widthPx) / 2 - this.cellPx;
+    this.originY = (canvasHeight - heightPx) / 2 - this.cellPx;
+
+    const count = this.width * this.height;
+    this.temp = new Float64Array(count);
+    this.nextTemp = new Float64Array(count);
+    this.capacity = new Float64Array(count);
+    this.conductivity = new Float64Array(count);
+    this.nusselt = new Float64Array(count).fill(1);
+    this.condEast = new Float64Array(count);
+    this.condSouth = new Float64Array(count);
+    this.condAmbient = new Float64Array(count);
+    this.latentHeat = new Float64Array(count);
+    this.liquidFraction = new Float64Array(count).fill(1);
+    this.fixed = new Uint8Array(count);
+    this.outside = new Uint8Array(count);
+    this.layer = new Uint8Array(count);
+    this.sampleIndex = new Int16Array(count).fill(-1);
+    this.contacts = samples.map(s => s.contact_resistance ?? null);
 
     // Pre-calculate Sample Geometry & Physics
-    const processedSamples = samples.map(s => {
+    const processedSamples = samples.map((s, index) => {
       // 1. Calculate Radii in Pixels
       const outerRadius = s.radius;
       const middleRadius = outerRadius - (s.outer_thickness_in * PIXELS_PER_INCH);
@@ -69,13 +265,16 @@ export class GridPhysicsEngine {
       const effectiveDensity = massKg / volumeM3;
 
       // Create a custom material for the core with this density
+      // (the mass is fixed by the water mass, so any density table is dropped)
       const coreMat: Material = {
         ...s.core_material,
-        density: effectiveDensity
+        density: effectiveDensity,
+        density_table: undefined
       };
 
       return {
         ...s,
+        index,
         calculated: {
           outerRadius,
           middleRadius,
@@ -86,19 +285,22 @@ export class GridPhysicsEngine {
     });
 
     for (let y = 0; y < this.height; y++) {
-      const row: GridCell[] = [];
       for (let x = 0; x < this.width; x++) {
-        // Map grid coordinates back to world coordinates (pixels)
-        const worldX = x * 4;
-        const worldY = y * 4;
+        const idx = this.index(x, y);
+        // Cell centre in world coordinates (pixels)
+        const worldX = this.originX + (x + 0.5) * this.cellPx;
+        const worldY = this.originY + (y + 0.5) * this.cellPx;
 
         // Determine material at this point
         let material = container.fill_material;
         let temp = ambientC;
         let isBoundary = false;
+        let hydration: HydrationSettings | null = null;
+        let layer: SampleLayer = 'fill';
 
-        // Check if inside container
+        // Check if inside container, or inside the wall around the fill
         let insideContainer = false;
+        let insideWall = false;
         const cx = canvasWidth / 2;
         const cy = canvasHeight / 2;
 
@@ -106,27 +308,37 @@ export class GridPhysicsEngine {
           const r = container.width / 2;
           const dist = Math.sqrt((worldX - cx) ** 2 + (worldY - cy) ** 2);
           if (dist <= r) insideContainer = true;
+          else if (dist <= r + wallPx) insideWall = true;
         } else {
           const w = container.width;
           const h = container.height;
           if (worldX >= cx - w/2 && worldX <= cx + w/2 && 
               worldY >= cy - h/2 && worldY <= cy + h/2) {
             insideContainer = true;
+          } else if (worldX >= cx - w/2 - wallPx && worldX <= cx + w/2 + wallPx &&
+              worldY >= cy - h/2 - wallPx && worldY <= cy + h/2 + wallPx) {
+            insideWall = true;
           }
         }
 
-        if (!insideContainer) {
+        if (insideWall) {
+          // Container wall: starts at ambient and exchanges heat both ways
+          material = container.wall_material;
+          this.wallCells.push(idx);
+        } else if (!insideContainer) {
           // Outside container = Ambient Air
           material = MaterialLibrary.getMaterials()['Air'];
           isBoundary = true; // Fixed ambient temp
         } else {
           // Inside container: use fill material temperature
           temp = fillTempC;
-          // If water is selected, make it a boundary condition (controlled temperature)
-          if (container.fill_type === 'Water') {
+          // If water is selected, make it a boundary condition (controlled
+          // temperature), unless it is a passive fill
+          if (container.fill_type === 'Water' && !passiveWater) {
             isBoundary = true;
           }
           // Check if inside any sample
+          let inSample = false;
           for (const sample of processedSamples) {
             const dx = worldX - sample.x;
             const dy = worldY - sample.y;
@@ -137,84 +349,1053 @@ export class GridPhysicsEngine {
               if (dist <= sample.calculated.coreRadius) {
                 material = sample.calculated.coreMat;
                 temp = this.f2c(sample.initial_temperature);
+                layer = 'core';
+                if (sample.hydration?.enabled) hydration = sample.hydration;
               } else if (dist <= sample.calculated.middleRadius) {
                 material = sample.middle_material;
                 temp = this.f2c(sample.initial_temperature); 
+                layer = 'middle';
               } else {
                 material = sample.outer_material;
                 temp = this.f2c(sample.initial_temperature);
+                layer = 'outer';
               }
+              this.sampleIndex[idx] = sample.index;
               
               // Samples are not boundary conditions - they exchange heat with surroundings
               isBoundary = false;
+              inSample = true;
               
               // Cache cell location for this sample
               if (!this.sampleCells.has(sample.id)) {
                 this.sampleCells.set(sample.id, []);
               }
-              this.sampleCells.get(sample.id)?.push({x, y});
+              this.sampleCells.get(sample.id)?.push(idx);
               
               break;
             }
           }
+          if (!inSample && !isBoundary) this.fillCells.push(idx);
+        }
+
+        // The outermost ring of the grid is never updated
+        if (x === 0 || y === 0 || x === this.width - 1 || y === this.height - 1) {
+          isBoundary = true;
         }
 
-        row.push({
-          temp,
-          nextTemp: temp,
-          material,
-          isBoundary
-        });
+        if (hydration && !isBoundary) {
+          const mass = material.density * this.cellArea * this.cellDepth;
+          this.hydrationCells.push({idx, mass, age: 0, settings: hydration});
+        }
+
+        const props = MaterialLibrary.getProperties(material, temp);
+        const phase = isBoundary ? undefined : material.phase_change;
+        const isOutside = !insideContainer && !insideWall;
+        this.temp[idx] = temp;
+        this.nextTemp[idx] = temp;
+        this.conductivity[idx] = props.thermal_conductivity;
+        this.capacity[idx] = props.density * props.specific_heat * this.cellArea * this.cellDepth;
+        this.fixed[idx] = isBoundary ? 1 : 0;
+        this.outside[idx] = isOutside ? 1 : 0;
+        this.layer[idx] = SAMPLE_LAYERS.indexOf(layer);
+        if (phase) {
+          this.latentHeat[idx] = phase.latent_heat * props.density * this.cellArea * this.cellDepth;
+          this.liquidFraction[idx] = PhaseChangeModel.liquidFraction(temp, phase);
+          this.phaseCells.push({idx, phase});
+        }
+        if (isOutside) this.ambientCells.push(idx);
+        else if (!isBoundary) this.lidCells.push({idx, openWater: SurfaceLossModel.isOpenWater(material)});
+        else if (this.bath && insideContainer) this.bathCells.push(idx);
+        if (passiveWater && !isBoundary && material === container.fill_material) {
+          this.convectionCells.push({idx, material});
+        }
+        if (!isBoundary && MaterialLibrary.hasPropertyTables(material)) {
+          this.variableCells.push({idx, material, evaluatedAt: temp});
+        }
       }
-      this.grid.push(row);
     }
+
+    this.buildActiveRegion();
+    this.bathCapacity = this.bathCells.reduce((sum, idx) => sum + this.capacity[idx], 0);
+    this.bathState = this.bath ? BathModel.createState(fillTempC) : null;
+
+    this.buildConductances();
+    this.stableTimeStep = this.computeStableTimeStep();
+
+    const lineLength = Math.max(this.width, this.height);
+    this.lineBuffers = {
+      lower: new Float64Array(lineLength),
+      diag: new Float64Array(lineLength),
+      upper: new Float64Array(lineLength),
+      rhs: new Float64Array(lineLength),
+      solution: new Float64Array(lineLength),
+      scratch: new Float64Array(lineLength),
+      links: new Float64Array(lineLength),
+      fixed: new Uint8Array(lineLength)
+    };
+
+    this.boundaryHeatIn = 0;
+    this.heatGenerated = 0;
+    this.radiationLoss = 0;
+    this.evaporationLoss = 0;
+    this.initialEnergy = this.domainEnergy();
+    this.energyScale = this.thermalEnergyScale();
   }
 
-  // Perform one simulation step (Finite Difference Method)
-  step(): { grid: number[][], samples: Sample[] } {
-    this.time += TIME_STEP;
-    const dx = PIXEL_SIZE_MM / 1000; // meters
-    const dx2 = dx * dx;
+  // Finite-volume face conductances. The face between two cells uses the
+  // harmonic mean of their conductivities, which is exact for two half-cells
+  // in series: G = k_face * (dx * depth) / dx.
+  // With convection enabled, faces on the container's outer wall and the open
+  // top of every container cell lose heat through a surface film instead.
+  private buildConductances() {
+    for (let idx = 0; idx < this.temp.length; idx++) {
+      this.linkCell(idx);
+    }
+    // The lumped bath is well mixed, so no conduction to its cell centres
+    this.bathConductance = this.bathCells.length * this.depthConductance(Infinity);
+  }
 
-    // Update Grid Temperatures
-    for (let y = 1; y < this.height - 1; y++) {
-      for (let x = 1; x < this.width - 1; x++) {
-        const cell = this.grid[y][x];
-        if (cell.isBoundary) continue;
+  // Index the updated cells by sleep block and by runs along the grid
+  // lines, so that air, bath and boundary-ring cells are never visited by
+  // the step
+  private buildActiveRegion() {
+    const w = this.width;
+    const h = this.height;
+    this.blocksX = Math.ceil(w / SLEEP_BLOCK_CELLS);
+    const blockCount = this.blocksX * Math.ceil(h / SLEEP_BLOCK_CELLS);
+    this.rowRuns = this.lineRuns(h, w, w, 1);
+    this.columnRuns = this.lineRuns(w, h, 1, w);
 
-        const top = this.grid[y-1][x];
-        const bottom = this.grid[y+1][x];
-        const left = this.grid[y][x-1];
-        const right = this.grid[y][x+1];
+    this.cellBlock = new Int32Array(w * h);
+    const counts = new Int32Array(blockCount + 1);
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const idx = this.index(x, y);
+        const block = Math.floor(y / SLEEP_BLOCK_CELLS) * this.blocksX + Math.floor(x / SLEEP_BLOCK_CELLS);
+        this.cellBlock[idx] = block;
+        if (!this.fixed[idx]) counts[block + 1]++;
+      }
+    }
+    for (let b = 0; b < blockCount; b++) counts[b + 1] += counts[b];
+    this.blockStart = counts;
 
-        // 2D Heat Equation: dT/dt = alpha * (d2T/dx2 + d2T/dy2)
-        // alpha = k / (rho * cp)
-        const k = cell.material.thermal_conductivity;
-        const rho = cell.material.density;
-        const cp = cell.material.specific_heat;
-        const alpha = k / (rho * cp);
+    const next = counts.slice(0, blockCount);
+    this.activeCells = new Int32Array(counts[blockCount]);
+    for (let idx = 0; idx < w * h; idx++) {
+      if (!this.fixed[idx]) this.activeCells[next[this.cellBlock[idx]]++] = idx;
+    }
 
-        // Laplacian (Finite Difference)
-        const d2T = (top.temp + bottom.temp + left.temp + right.temp - 4 * cell.temp) / dx2;
+    this.blockAwake = new Uint8Array(blockCount).fill(1);
+    this.blockIdle = new Uint16Array(blockCount);
+    this.blockChange = new Float64Array(blockCount);
+    this.sleepHeat = new Float64Array(w * h);
+  }
 
-        // Update temperature
-        const change = alpha * d2T * TIME_STEP;
-        cell.nextTemp = cell.temp + change;
+  // Runs of updated cells on `lines` grid lines of `length` cells; line i
+  // starts at cell i * lineStride and steps by `stride`
+  private lineRuns(lines: number, length: number, lineStride: number, stride: number): Int32Array {
+    const runs: number[] = [];
+    for (let i = 0; i < lines; i++) {
+      let first = -1;
+      for (let n = 0; n < length; n++) {
+        const idx = i * lineStride + n * stride;
+        if (!this.fixed[idx] && first < 0) first = idx;
+        if (this.fixed[idx] && first >= 0) {
+          runs.push(first, (idx - first) / stride);
+          first = -1;
+        }
       }
     }
+    return Int32Array.from(runs);
+  }
 
-    // Apply updates
-    const tempGrid: number[][] = [];
-    for (let y = 0; y < this.height; y++) {
-      const row: number[] = [];
-      for (let x = 0; x < this.width; x++) {
-        this.grid[y][x].temp = this.grid[y][x].nextTemp;
-        row.push(this.c2f(this.grid[y][x].temp));
+  private index(x: number, y: number): number {
+    return y * this.width + x;
+  }
+
+  // Conductances owned by cell `idx`: its east and south faces and open top
+  private linkCell(idx: number) {
+    const x = idx % this.width;
+    this.condEast[idx] = x + 1 < this.width ? this.faceConductance(idx, idx + 1) : 0;
+    this.condSouth[idx] = idx + this.width < this.temp.length ? this.faceConductance(idx, idx + this.width) : 0;
+    this.condAmbient[idx] = !this.outside[idx] && !this.fixed[idx] ? this.depthConductance(this.conductivity[idx]) : 0;
+  }
+
+  // Relink every face of cell `idx` after its conductivity changed
+  private relinkCell(idx: number) {
+    this.linkCell(idx);
+    this.linkCell(idx - 1);
+    this.linkCell(idx - this.width);
+  }
+
+  // Quasi-3D fin term: each plan-view column loses heat to ambient up through
+  // the lid (or the open top's film) and down through the floor, starting
+  // half the container depth from its centre. The underside film uses the
+  // wall coefficient. Without convection the panels face ambient directly.
+  private depthConductance(k: number): number {
+    const halfDepth = this.cellDepth / 2;
+    let conductance = 0;
+    if (this.lidResistance !== null) {
+      conductance += this.panelConductance(this.lidResistance, this.convection?.top_h, k);
+    } else if (this.convection) {
+      conductance += this.filmConductance(this.convection.top_h, k, this.cellArea, halfDepth);
+    }
+    if (this.floorResistance !== null) {
+      conductance += this.panelConductance(this.floorResistance, this.convection?.wall_h, k);
+    }
+    return conductance;
+  }
+
+  // Column centre to ambient through a panel, then its film when `h` is set:
+  // G = A / (d/k + R_panel + 1/h)
+  private panelConductance(panelResistance: number, h: number | undefined, k: number): number {
+    if (h !== undefined && h <= 0) return 0;
+    const resistance = (k > 0 ? (this.cellDepth / 2) / k : 0) + panelResistance + (h !== undefined ? 1 / h : 0);
+    return resistance > 0 ? this.cellArea / resistance : 0;
+  }
+
+  // Conduction resistance per unit area (m²·K/W) of a lid or floor
+  private panelResistance(panel: ContainerPanel | undefined, tempC: number): number | null {
+    if (!panel) return null;
+    const k = MaterialLibrary.getProperties(panel.material, tempC).thermal_conductivity;
+    const thicknessM = panel.thickness_in * 0.0254;
+    return k > 0 ? thicknessM / k : 0;
+  }
+
+  // Re-evaluate temperature-dependent properties before a step, for cells
+  // that have drifted since their last evaluation. Conductances and
+  // capacities are lagged by one step. Stored energy is measured as
+  // capacity * temperature, so the ledger baseline absorbs the change in
+  // capacity at the current temperature.
+  private updateProperties() {
+    for (const v of this.variableCells) {
+      const t = this.temp[v.idx];
+      if (Math.abs(t - v.evaluatedAt) < PROPERTY_TOLERANCE_C) continue;
+      v.evaluatedAt = t;
+      const props = MaterialLibrary.getProperties(v.material, t);
+      const capacity = props.density * props.specific_heat * this.cellArea * this.cellDepth;
+      this.initialEnergy += (capacity - this.capacity[v.idx]) * t;
+      this.capacity[v.idx] = capacity;
+      this.conductivity[v.idx] = props.thermal_conductivity * this.nusselt[v.idx];
+      this.relinkCell(v.idx);
+    }
+  }
+
+  // Natural convection in a passive water fill, re-evaluated once per
+  // advance call. Each cell is driven by its own difference from the bulk
+  // fill temperature over the water depth, so the water next to a hot or
+  // cold cylinder mixes hardest. Returns whether any cell was relinked: Nu
+  // scales the conductivity by an order of magnitude or more, so the
+  // stability limit has to follow.
+  private updateNaturalConvection(): boolean {
+    if (this.convectionCells.length === 0) return false;
+    let energy = 0;
+    let capacity = 0;
+    for (const { idx } of this.convectionCells) {
+      energy += this.capacity[idx] * this.temp[idx];
+      capacity += this.capacity[idx];
+    }
+    const bulkC = energy / capacity;
+    let relinked = false;
+
+    for (const { idx, material } of this.convectionCells) {
+      const t = this.temp[idx];
+      const props = MaterialLibrary.getProperties(material, t);
+      const nusselt = NaturalConvectionModel.nusselt(t - bulkC, this.cellDepth, t, props, this.liquidFraction[idx]);
+      if (Math.abs(nusselt - this.nusselt[idx]) < NUSSELT_TOLERANCE * this.nusselt[idx]) continue;
+      this.nusselt[idx] = nusselt;
+      this.conductivity[idx] = props.thermal_conductivity * nusselt;
+      relinked = true;
+      this.relinkCell(idx);
+    }
+    return relinked;
+  }
+
+  // Faces between sample layers also carry the sample's contact resistance
+  private faceConductance(a: number, b: number): number {
+    const dx = this.cellSize;
+    if (this.convection && this.outside[a] !== this.outside[b]) {
+      const inner = this.outside[a] ? b : a;
+      return this.filmConductance(this.convection.wall_h, this.conductivity[inner], dx * this.cellDepth, dx / 2);
+    }
+    const conduction = this.harmonicMean(this.conductivity[a], this.conductivity[b]) * this.cellDepth;
+    if (this.layer[a] === this.layer[b]) return conduction;
+    const sample = this.sampleIndex[a] >= 0 ? this.sampleIndex[a] : this.sampleIndex[b];
+    return ContactResistanceModel.apply(
+      conduction,
+      dx * this.cellDepth,
+      SAMPLE_LAYERS[this.layer[a]],
+      SAMPLE_LAYERS[this.layer[b]],
+      sample >= 0 ? this.contacts[sample] : null
+    );
+  }
+
+  private harmonicMean(a: number, b: number): number {
+    return a + b > 0 ? (2 * a * b) / (a + b) : 0;
+  }
+
+  // Surface film h in series with conduction from the cell centre to the
+  // surface: G = A / (1/h + d/k)
+  private filmConductance(h: number, k: number, area: number, halfThickness: number): number {
+    if (h <= 0) return 0;
+    return area / (1 / h + (k > 0 ? halfThickness / k : 0));
+  }
+
+  // The explicit update is stable while dt <= C / sum(G) for every updated
+  // cell. The limit is set by the fastest-diffusing material that is actually
+  // updated (aluminum or copper molds), so boundary cells are ignored.
+  private computeStableTimeStep(): number {
+    let minStep = Infinity;
+    for (let n = 0; n < this.activeCells.length; n++) {
+      const idx = this.activeCells[n];
+      const totalConductance = this.condEast[idx] + this.condSouth[idx] + this.condAmbient[idx]
+        + this.condEast[idx - 1] + this.condSouth[idx - this.width];
+      if (totalConductance > 0) {
+        minStep = Math.min(minStep, this.capacity[idx] / totalConductance);
       }
-      tempGrid.push(row);
     }
+    return STABILITY_SAFETY_FACTOR * minStep;
+  }
 
-    return { grid: tempGrid, samples: [] };
+  // Simulated time in seconds
+  getTime(): number {
+    return this.time;
+  }
+
+  getStableTimeStep(): number {
+    return this.stableTimeStep;
+  }
+
+  setSolverSettings(settings: SolverSettings) {
+    this.solver = { ...settings };
+    // Sleeping cells hold the same temperature in both buffers, so they can
+    // rejoin the step at any time
+    if (this.sleepRate() <= 0) this.wakeAll();
+  }
+
+  // Rate of change (°C/s) below which a block sleeps, 0 = sleep disabled
+  private sleepRate(): number {
+    return (this.solver.sleep_rate_f_per_hour ?? 0) * 5 / 9 / 3600;
+  }
+
+  // Advance simulated time by exactly `seconds`. Explicit mode sub-steps so
+  // that every step stays within the stability limit; ADI mode takes steps of
+  // the configured length (the last one shortened to land on `seconds`).
+  advance(seconds: number) {
+    if (seconds <= 0) return;
+    const useADI = this.solver.mode === 'adi';
+    // Properties are refreshed before every step, the stability limit once
+    // per call (it drifts only slowly with temperature)
+    this.updateProperties();
+    const relinked = this.updateNaturalConvection();
+    const filmChanged = this.updateWindFilm(this.time);
+    if (relinked || filmChanged || this.variableCells.length > 0) this.stableTimeStep = this.computeStableTimeStep();
+    const maxStep = useADI
+      ? Math.max(1, this.solver.time_step_min * 60)
+      : this.stableTimeStep;
+    const subSteps = Math.max(1, Math.ceil(seconds / maxStep));
+    const dt = seconds / subSteps;
+    for (let i = 0; i < subSteps; i++) {
+      if (i > 0) this.updateProperties();
+      this.updateAmbient(this.time + dt);
+      if (useADI) {
+        this.integrateADI(dt);
+      } else {
+        this.integrate(dt);
+      }
+      this.updateBath(dt);
+      this.absorbSolar(dt);
+      this.applySurfaceLosses(dt);
+      this.releaseHydrationHeat(dt);
+      this.settlePhases();
+      this.updateSleep(dt);
+    }
+  }
+
+  // Perform one simulation step (Finite Volume Method). Read the result with
+  // getGridBuffer() or the sample accessors.
+  step(dt: number = this.stableTimeStep) {
+    this.updateProperties();
+    const stepSize = Math.min(dt, this.stableTimeStep);
+    if (Number.isFinite(stepSize)) {
+      this.updateAmbient(this.time + stepSize);
+      this.integrate(stepSize);
+      this.updateBath(stepSize);
+      this.absorbSolar(stepSize);
+      this.applySurfaceLosses(stepSize);
+      this.releaseHydrationHeat(stepSize);
+      this.settlePhases();
+      this.updateSleep(stepSize);
+    }
+  }
+
+  // Equilibrium field under the current ambient and films, solved directly
+  // rather than time marched: the net heat flow into every updated cell is
+  // zero. A thermostat bath is held at its setpoint while the heater or
+  // chiller can supply the heat that takes; beyond that it becomes one more
+  // unknown, driven at full power. Hydration adds nothing (its total heat is
+  // finite, so none is left at equilibrium).
+  // Table properties, natural convection and surface losses depend on the
+  // field, so each pass solves the network with them evaluated at the last
+  // pass's field (surface losses linearized there), until the field stops
+  // moving. Simulated time does not advance; the energy ledger restarts from
+  // the steady field.
+  solveSteadyState(): SteadyStateReport {
+    this.wakeAll();
+    const bath = this.bath && this.bathState ? this.bath : null;
+    const setpointC = bath ? this.f2c(bath.setpoint_f) : 0;
+    let bathC = setpointC;
+    let bathPower = 0; // W from the heater (> 0) or chiller (< 0)
+    let bathFree = false; // Saturated: the bath is an unknown at bathPower
+    this.setBathTemp(bathC);
+
+    const count = this.activeCells.length;
+    const bathSlot = count;
+    const unknowns = bath ? count + 1 : count;
+    const slot = new Int32Array(this.temp.length).fill(-1); // Unknown of each updated cell
+    for (let n = 0; n < count; n++) slot[this.activeCells[n]] = n;
+    const diag = new Float64Array(unknowns);
+    const rhs = new Float64Array(unknowns);
+    const x = new Float64Array(unknowns);
+    const w = this.width;
+    // Faces from the bath to cells it exchanges heat with
+    const bathFaces: { g: number, other: number }[] = [];
+
+    // Conductance `g` from unknown n to cell `other`: a fixed cell moves to
+    // the right-hand side at its temperature
+    const link = (n: number, g: number, other: number) => {
+      diag[n] += g;
+      if (slot[other] < 0) rhs[n] += g * this.temp[other];
+    };
+    const multiply = (v: Float64Array, out: Float64Array) => {
+      for (let n = 0; n < count; n++) {
+        const idx = this.activeCells[n];
+        let sum = diag[n] * v[n];
+        if (slot[idx - w] >= 0) sum -= this.condSouth[idx - w] * v[slot[idx - w]];
+        if (slot[idx + w] >= 0) sum -= this.condSouth[idx] * v[slot[idx + w]];
+        if (slot[idx - 1] >= 0) sum -= this.condEast[idx - 1] * v[slot[idx - 1]];
+        if (slot[idx + 1] >= 0) sum -= this.condEast[idx] * v[slot[idx + 1]];
+        out[n] = sum;
+      }
+      if (unknowns > count) {
+        let sum = diag[bathSlot] * v[bathSlot];
+        if (bathFree) {
+          for (const { g, other } of bathFaces) {
+            if (slot[other] >= 0) sum -= g * v[slot[other]];
+          }
+        }
+        out[bathSlot] = sum;
+      }
+    };
+
+    this.updateWindFilm(this.time);
+    let passes = 0;
+    let cgIterations = 0;
+    let cgResidual = 0;
+    let maxChange = Infinity;
+    while (passes < STEADY_MAX_PASSES && maxChange > STEADY_TOLERANCE_C) {
+      this.updateProperties();
+      this.updateNaturalConvection();
+      for (const idx of this.bathCells) slot[idx] = bathFree ? bathSlot : -1;
+
+      for (let n = 0; n < count; n++) {
+        const idx = this.activeCells[n];
+        diag[n] = this.condAmbient[idx];
+        rhs[n] = this.condAmbient[idx] * this.ambientC;
+        link(n, this.condSouth[idx - w], idx - w);
+        link(n, this.condSouth[idx], idx + w);
+        link(n, this.condEast[idx - 1], idx - 1);
+        link(n, this.condEast[idx], idx + 1);
+        x[n] = this.temp[idx];
+      }
+      this.addSurfaceTerms(slot, diag, rhs);
+      if (bath) this.addBathTerms(bathFree, bathC, bathPower, bathFaces, slot, bathSlot, diag, rhs, x);
+
+      const result = ConjugateGradientSolver.solve(multiply, diag, rhs, x, CG_TOLERANCE, CG_MAX_ITERATIONS);
+      cgIterations += result.iterations;
+      cgResidual = result.residual;
+
+      maxChange = 0;
+      for (let n = 0; n < count; n++) {
+        const idx = this.activeCells[n];
+        maxChange = Math.max(maxChange, Math.abs(x[n] - this.temp[idx]));
+        this.temp[idx] = x[n];
+      }
+      for (const { idx, phase } of this.phaseCells) {
+        this.liquidFraction[idx] = PhaseChangeModel.liquidFraction(this.temp[idx], phase);
+      }
+
+      // The bath holds its setpoint while that takes no more than the
+      // heater or chiller can give; a saturated bath that ends up past its
+      // setpoint could hold it after all
+      if (bath) {
+        if (bathFree) {
+          maxChange = Math.max(maxChange, Math.abs(x[bathSlot] - bathC));
+          bathC = x[bathSlot];
+          if ((bathPower > 0 && bathC > setpointC) || (bathPower <= 0 && bathC < setpointC)) {
+            bathFree = false;
+            bathC = setpointC;
+            maxChange = Infinity;
+          }
+        } else {
+          const required = this.bathHeatOut(setpointC);
+          bathPower = Math.max(-bath.chiller_w, Math.min(bath.heater_w, required));
+          if (bathPower !== required) {
+            bathFree = true;
+            maxChange = Infinity;
+          }
+        }
+        this.setBathTemp(bathC);
+      }
+      passes++;
+    }
+    if (bath && !bathFree) bathPower = this.bathHeatOut(setpointC);
+    if (this.bathState) {
+      this.bathState.heaterPower = Math.max(0, bathPower);
+      this.bathState.chillerPower = Math.max(0, -bathPower);
+    }
+
+    this.nextTemp.set(this.temp);
+    this.stableTimeStep = this.computeStableTimeStep();
+    this.initialEnergy = this.domainEnergy();
+    this.energyScale = this.thermalEnergyScale();
+    this.boundaryHeatIn = 0;
+    this.heatGenerated = 0;
+    this.radiationLoss = 0;
+    this.evaporationLoss = 0;
+
+    const sampleTemps: Record<string, number> = {};
+    this.sampleCells.forEach((_, id) => {
+      sampleTemps[id] = this.getSampleTemp(id);
+    });
+    return {
+      converged: maxChange <= STEADY_TOLERANCE_C && cgResidual <= CG_TOLERANCE,
+      passes,
+      cg_iterations: cgIterations,
+      max_imbalance_w: this.maxImbalance(),
+      sample_temps: sampleTemps,
+      bath: bath
+        ? { temp_f: this.c2f(bathC), power_w: bathPower, holds_setpoint: !bathFree }
+        : null
+    };
+  }
+
+  // Move the thermostat bath and its cells to `tempC`
+  private setBathTemp(tempC: number) {
+    if (!this.bathState) return;
+    this.bathState.temp = tempC;
+    for (const idx of this.bathCells) {
+      this.temp[idx] = tempC;
+      this.nextTemp[idx] = tempC;
+    }
+  }
+
+  // The bath row of the steady-state system. A bath held at its setpoint is
+  // a fixed cell, so its row only keeps the matrix regular. A saturated bath
+  // balances `power` against the faces it shares with the domain, its top
+  // conductance, solar gain and its surface losses linearized at `bathC`.
+  private addBathTerms(
+    free: boolean,
+    bathC: number,
+    power: number,
+    faces: { g: number, other: number }[],
+    slot: Int32Array,
+    bathSlot: number,
+    diag: Float64Array,
+    rhs: Float64Array,
+    x: Float64Array
+  ) {
+    x[bathSlot] = bathC;
+    if (!free) {
+      diag[bathSlot] = 1;
+      rhs[bathSlot] = bathC;
+      return;
+    }
+    const w = this.width;
+    faces.length = 0;
+    for (const idx of this.bathCells) {
+      for (const [g, other] of [[this.condEast[idx], idx + 1], [this.condSouth[idx], idx + w], [this.condEast[idx - 1], idx - 1], [this.condSouth[idx - w], idx - w]]) {
+        if (this.fixed[other] && !this.outside[other]) continue;
+        faces.push({ g, other });
+      }
+    }
+    const surfaceArea = this.bathCells.length * this.cellArea;
+    diag[bathSlot] = this.bathConductance;
+    rhs[bathSlot] = power + this.bathConductance * this.ambientC + this.solarFlux * surfaceArea;
+    for (const { g, other } of faces) {
+      diag[bathSlot] += g;
+      if (slot[other] < 0) rhs[bathSlot] += g * this.temp[other];
+    }
+    if (this.surfaceLosses) {
+      const skyC = SurfaceLossModel.skyTemperatureC(this.surfaceLosses, this.ambientC);
+      const wet = this.lidResistance === null ? 1 : 0;
+      const flux = SurfaceLossModel.flux(this.surfaceLosses, bathC, this.ambientC, skyC, wet, this.surfaceFlux);
+      const slope = flux.radiationSlope + flux.evaporationSlope;
+      diag[bathSlot] += slope * surfaceArea;
+      rhs[bathSlot] += (slope * bathC - flux.radiation - flux.evaporation) * surfaceArea;
+    }
+  }
+
+  // Solar gain and surface losses on the steady-state system. The losses
+  // are linearized at the current field: q(T) ~ q0 + q' (T - T0).
+  private addSurfaceTerms(slot: Int32Array, diag: Float64Array, rhs: Float64Array) {
+    const area = this.cellArea;
+    const skyC = this.surfaceLosses ? SurfaceLossModel.skyTemperatureC(this.surfaceLosses, this.ambientC) : 0;
+    const open = this.lidResistance === null;
+    for (const { idx, openWater } of this.lidCells) {
+      const n = slot[idx];
+      rhs[n] += this.solarFlux * area;
+      if (!this.surfaceLosses) continue;
+      const t = this.temp[idx];
+      const wet = open && openWater ? this.liquidFraction[idx] : 0;
+      const flux = SurfaceLossModel.flux(this.surfaceLosses, t, this.ambientC, skyC, wet, this.surfaceFlux);
+      const slope = flux.radiationSlope + flux.evaporationSlope;
+      diag[n] += slope * area;
+      rhs[n] += (slope * t - flux.radiation - flux.evaporation) * area;
+    }
+  }
+
+  // Largest net heat flow (W) into any updated cell at the current field,
+  // with the surface losses evaluated exactly. Every updated cell has an
+  // open-top face, so lidCells lists them all.
+  private maxImbalance(): number {
+    const w = this.width;
+    const t = this.temp;
+    const skyC = this.surfaceLosses ? SurfaceLossModel.skyTemperatureC(this.surfaceLosses, this.ambientC) : 0;
+    const open = this.lidResistance === null;
+    let worst = 0;
+    for (const { idx, openWater } of this.lidCells) {
+      let heatIn =
+        this.condSouth[idx - w] * (t[idx - w] - t[idx]) +
+        this.condSouth[idx] * (t[idx + w] - t[idx]) +
+        this.condEast[idx - 1] * (t[idx - 1] - t[idx]) +
+        this.condEast[idx] * (t[idx + 1] - t[idx]) +
+        this.condAmbient[idx] * (this.ambientC - t[idx]) +
+        this.solarFlux * this.cellArea;
+      if (this.surfaceLosses) {
+        const wet = open && openWater ? this.liquidFraction[idx] : 0;
+        const flux = SurfaceLossModel.flux(this.surfaceLosses, t[idx], this.ambientC, skyC, wet, this.surfaceFlux);
+        heatIn -= (flux.radiation + flux.evaporation) * this.cellArea;
+      }
+      worst = Math.max(worst, Math.abs(heatIn));
+    }
+    return worst;
+  }
+
+  private integrate(dt: number) {
+    this.time += dt;
+    const w = this.width;
+    const t = this.temp;
+    const fixed = this.fixed;
+    let boundaryFlow = 0; // W into updated cells from fixed cells
+    const sleeping = this.sleepRate() > 0;
+
+    for (let b = 0; b < this.blockAwake.length; b++) {
+      if (!this.blockAwake[b]) continue;
+      for (let n = this.blockStart[b]; n < this.blockStart[b + 1]; n++) {
+        const idx = this.activeCells[n];
+        // Net heat flow into the cell through its four faces and open top (W)
+        const north = this.condSouth[idx - w] * (t[idx - w] - t[idx]);
+        const south = this.condSouth[idx] * (t[idx + w] - t[idx]);
+        const west = this.condEast[idx - 1] * (t[idx - 1] - t[idx]);
+        const east = this.condEast[idx] * (t[idx + 1] - t[idx]);
+        const topLoss = this.condAmbient[idx] * (this.ambientC - t[idx]);
+
+        // Update temperature: C * dT/dt = heatIn
+        this.nextTemp[idx] = t[idx] + ((north + south + west + east + topLoss) * dt) / this.capacity[idx];
+
+        if (fixed[idx - w]) boundaryFlow += north;
+        if (fixed[idx + w]) boundaryFlow += south;
+        if (fixed[idx - 1]) boundaryFlow += west;
+        if (fixed[idx + 1]) boundaryFlow += east;
+        boundaryFlow += topLoss;
+        if (sleeping) {
+          this.passToSleeping(idx - w, north * dt);
+          this.passToSleeping(idx + w, south * dt);
+          this.passToSleeping(idx - 1, west * dt);
+          this.passToSleeping(idx + 1, east * dt);
+        }
+      }
+    }
+    this.boundaryHeatIn += boundaryFlow * dt;
+
+    const swap = this.temp;
+    this.temp = this.nextTemp;
+    this.nextTemp = swap;
+  }
+
+  // Alternating-direction implicit step. Each half is backward Euler along one
+  // axis (rows, then columns), solved exactly with a tridiagonal sweep. Fully
+  // implicit halves rather than Crank–Nicolson averaging keep multi-minute
+  // steps free of oscillations in the highly conductive mold cells.
+  private integrateADI(dt: number) {
+    this.time += dt;
+    // updateSleep() measures the step against its starting temperatures
+    if (this.sleepRate() > 0) this.nextTemp.set(this.temp);
+
+    // Fixed cells split each line into independent runs. Every sweep covers
+    // one run plus the fixed cell at each end.
+    for (let r = 0; r < this.rowRuns.length; r += 2) {
+      this.sweepLine(this.rowRuns[r] - 1, 1, this.rowRuns[r + 1] + 2, this.condEast, dt);
+    }
+    for (let r = 0; r < this.columnRuns.length; r += 2) {
+      const stride = this.width;
+      this.sweepLine(this.columnRuns[r] - stride, stride, this.columnRuns[r + 1] + 2, this.condSouth, dt);
+    }
+  }
+
+  // Solve C * (T_new - T_old) / dt = sum(G * (T_neighbour - T_new)) along the
+  // grid line start, start + stride, ..., where `links` holds the conductance
+  // from each cell to the next one on the line. Both ends are fixed cells;
+  // they, other fixed cells and sleeping cells keep their temperature. Each
+  // of the two sweeps carries half of the loss to ambient through the top
+  // and floor.
+  private sweepLine(start: number, stride: number, length: number, links: Float64Array, dt: number) {
+    const { lower, diag, upper, rhs, solution, scratch } = this.lineBuffers;
+    const lineLinks = this.lineBuffers.links;
+    const lineFixed = this.lineBuffers.fixed;
+
+    for (let n = 0; n < length; n++) {
+      const idx = start + n * stride;
+      rhs[n] = this.temp[idx];
+      lineLinks[n] = links[idx];
+      lineFixed[n] = this.fixed[idx] || !this.blockAwake[this.cellBlock[idx]] ? 1 : 0;
+      if (lineFixed[n]) {
+        lower[n] = 0;
+        diag[n] = 1;
+        upper[n] = 0;
+      } else {
+        const scale = dt / this.capacity[idx];
+        const prevLink = links[idx - stride];
+        const nextLink = links[idx];
+        const ambientLink = 0.5 * this.condAmbient[idx];
+        lower[n] = -prevLink * scale;
+        upper[n] = -nextLink * scale;
+        diag[n] = 1 + (prevLink + nextLink + ambientLink) * scale;
+        rhs[n] += ambientLink * scale * this.ambientC;
+      }
+    }
+
+    TridiagonalSolver.solve(lower, diag, upper, rhs, solution, length, scratch);
+
+    // Interior links cancel in pairs, so only faces touching a fixed cell
+    // change the energy of the updated cells. Heat across a face to a
+    // sleeping cell is held for it (see updateSleep).
+    let boundaryFlow = 0;
+    for (let n = 0; n < length; n++) {
+      const idx = start + n * stride;
+      this.temp[idx] = solution[n];
+      if (lineFixed[n]) continue;
+      boundaryFlow += 0.5 * this.condAmbient[idx] * (this.ambientC - solution[n]);
+      const before = lineLinks[n - 1] * (solution[n - 1] - solution[n]);
+      const after = lineLinks[n] * (solution[n + 1] - solution[n]);
+      if (this.fixed[idx - stride]) boundaryFlow += before;
+      else if (lineFixed[n - 1]) this.passToSleeping(idx - stride, before * dt);
+      if (this.fixed[idx + stride]) boundaryFlow += after;
+      else if (lineFixed[n + 1]) this.passToSleeping(idx + stride, after * dt);
+    }
+    this.boundaryHeatIn += boundaryFlow * dt;
+  }
+
+  // Ambient air (F) at `seconds`: the weather file's dry bulb when one
+  // drives the run, otherwise the ambient schedule
+  private ambientAt(seconds: number): number {
+    const conditions = WeatherModel.conditionsAt(this.weather, seconds, this.weatherStart, this.weatherConditions);
+    return conditions
+      ? conditions.dry_bulb_f
+      : AmbientScheduleModel.temperatureAt(this.ambientSchedule, this.meanAmbientF, seconds);
+  }
+
+  // Move the outside air to the scheduled ambient for a step ending at
+  // `seconds` (the implicit step sees its end-of-step boundary)
+  private updateAmbient(seconds: number) {
+    const conditions = WeatherModel.conditionsAt(this.weather, seconds, this.weatherStart, this.weatherConditions);
+    if (!conditions && !AmbientScheduleModel.isTimeVarying(this.ambientSchedule)) return;
+    this.ambientC = this.f2c(this.ambientAt(seconds));
+    for (const idx of this.ambientCells) {
+      this.temp[idx] = this.ambientC;
+      this.nextTemp[idx] = this.ambientC;
+    }
+    if (conditions) this.solarFlux = conditions.solar_w_m2 * this.weather!.solar_absorptance;
+  }
+
+  // Wind adds forced convection to the surface films. Faces are relinked
+  // once per advance call, and only after the coefficient has moved by
+  // WIND_FILM_TOLERANCE. Returns true when they were.
+  private updateWindFilm(seconds: number): boolean {
+    const conditions = WeatherModel.conditionsAt(this.weather, seconds, this.weatherStart, this.weatherConditions);
+    if (!conditions || !this.stillAir || !this.convection) return false;
+    const film = WeatherModel.windFilm(this.stillAir, conditions.wind_speed_mph);
+    if (Math.abs(film.top_h - this.convection.top_h) < WIND_FILM_TOLERANCE) return false;
+    this.convection = film;
+    this.buildConductances();
+    return true;
+  }
+
+  // Heat drawn from the thermostat bath over the step just taken (through
+  // every face it shares with a non-bath cell, its open top and any solar
+  // gain), then the bath's own update. Bath cells move together to the new
+  // bath temperature.
+  private updateBath(dt: number) {
+    if (!this.bath || !this.bathState) return;
+    const heatOut = this.bathHeatOut(this.bathState.temp);
+    BathModel.step(this.bath, this.bathState, this.bathCapacity, heatOut, dt, this.bathState);
+    for (const idx of this.bathCells) {
+      this.temp[idx] = this.bathState.temp;
+      this.nextTemp[idx] = this.bathState.temp;
+    }
+  }
+
+  // Heat (W) leaving the bath at `bathC` for the current field
+  private bathHeatOut(bathC: number): number {
+    const w = this.width;
+    // Bath cells sit inside the air ring, so all four neighbours exist
+    let heatOut = 0;
+    for (const idx of this.bathCells) {
+      heatOut += this.bathFlow(bathC, this.condEast[idx], idx + 1);
+      heatOut += this.bathFlow(bathC, this.condSouth[idx], idx + w);
+      heatOut += this.bathFlow(bathC, this.condEast[idx - 1], idx - 1);
+      heatOut += this.bathFlow(bathC, this.condSouth[idx - w], idx - w);
+    }
+    const surfaceArea = this.bathCells.length * this.cellArea;
+    heatOut += this.bathConductance * (bathC - this.ambientC);
+    heatOut -= this.solarFlux * surfaceArea;
+    if (this.surfaceLosses) {
+      const skyC = SurfaceLossModel.skyTemperatureC(this.surfaceLosses, this.ambientC);
+      const wet = this.lidResistance === null ? 1 : 0;
+      const flux = SurfaceLossModel.flux(this.surfaceLosses, bathC, this.ambientC, skyC, wet, this.surfaceFlux);
+      heatOut += (flux.radiation + flux.evaporation) * surfaceArea;
+    }
+    return heatOut;
+  }
+
+  // Heat (W) from the bath at `bathC` to neighbour `other`; faces shared with
+  // other bath cells carry none
+  private bathFlow(bathC: number, conductance: number, other: number): number {
+    return this.fixed[other] && !this.outside[other] ? 0 : conductance * (bathC - this.temp[other]);
+  }
+
+  // Solar gain absorbed by the open top, applied after the conduction step
+  // like the hydration source. It crosses the boundary, so the ledger books
+  // it as boundary heat.
+  private absorbSolar(dt: number) {
+    if (this.solarFlux <= 0) return;
+    const heat = this.solarFlux * this.cellArea * dt;
+    for (const { idx } of this.lidCells) {
+      if (!this.isAwake(idx)) continue;
+      this.temp[idx] += heat / this.capacity[idx];
+      this.boundaryHeatIn += heat;
+    }
+  }
+
+  // Radiation from the open top and evaporation from open water, sinks on
+  // each column's top face applied after the conduction step. A fitted lid
+  // radiates but stops evaporation.
+  private applySurfaceLosses(dt: number) {
+    if (!this.surfaceLosses) return;
+    const skyC = SurfaceLossModel.skyTemperatureC(this.surfaceLosses, this.ambientC);
+    const open = this.lidResistance === null;
+    for (const { idx, openWater } of this.lidCells) {
+      if (!this.isAwake(idx)) continue;
+      const wet = open && openWater ? this.liquidFraction[idx] : 0;
+      const flux = SurfaceLossModel.flux(this.surfaceLosses, this.temp[idx], this.ambientC, skyC, wet, this.surfaceFlux);
+      const loss = SurfaceLossModel.cool(flux, this.capacity[idx], this.cellArea, dt, this.surfaceCooling);
+      this.temp[idx] += loss.change;
+      this.radiationLoss += loss.radiation;
+      this.evaporationLoss += loss.evaporation;
+    }
+  }
+
+  // Hydration heat source, applied after the conduction step. Each core cell
+  // ages at its own temperature, so hot cores accelerate their own reaction.
+  private releaseHydrationHeat(dt: number) {
+    for (const h of this.hydrationCells) {
+      if (!this.isAwake(h.idx)) continue;
+      const nextAge = h.age + dt * HydrationModel.ageRate(this.temp[h.idx], h.settings);
+      const heat = h.mass * HydrationModel.heatReleased(h.age, nextAge, h.settings);
+      h.age = nextAge;
+      this.temp[h.idx] += heat / this.capacity[h.idx];
+      this.heatGenerated += heat;
+    }
+  }
+
+  // Recover temperature and liquid fraction from each freezing cell's
+  // enthalpy after the step has added heat at its sensible capacity
+  private settlePhases() {
+    for (const { idx, phase } of this.phaseCells) {
+      if (!this.isAwake(idx)) continue;
+      const energy = this.capacity[idx] * this.temp[idx] + this.latentHeat[idx] * this.liquidFraction[idx];
+      const state = PhaseChangeModel.settle(energy, this.capacity[idx], this.latentHeat[idx], phase, this.phaseState);
+      this.temp[idx] = state.temp;
+      this.liquidFraction[idx] = state.liquidFraction;
+    }
+  }
+
+  private isAwake(idx: number): boolean {
+    return this.blockAwake[this.cellBlock[idx]] === 1;
+  }
+
+  // Book `heat` (J) that an awake cell drew from cell `idx` if that cell is
+  // asleep, so that it is taken up when the cell wakes
+  private passToSleeping(idx: number, heat: number) {
+    if (!this.fixed[idx] && !this.blockAwake[this.cellBlock[idx]]) this.sleepHeat[idx] -= heat;
+  }
+
+  // Wake block `b`, its cells taking up the heat held for them
+  private wakeBlock(b: number) {
+    this.blockAwake[b] = 1;
+    for (let n = this.blockStart[b]; n < this.blockStart[b + 1]; n++) {
+      const idx = this.activeCells[n];
+      if (this.sleepHeat[idx] === 0) continue;
+      this.temp[idx] += this.sleepHeat[idx] / this.capacity[idx];
+      this.nextTemp[idx] = this.temp[idx];
+      this.sleepHeat[idx] = 0;
+    }
+  }
+
+  private wakeAll() {
+    for (let b = 0; b < this.blockAwake.length; b++) {
+      if (!this.blockAwake[b]) this.wakeBlock(b);
+    }
+  }
+
+  // Optional sleep: a block whose cells all changed more slowly than the
+  // sleep rate over the step just taken stops being stepped. It is stepped again every
+  // SLEEP_CHECK_STEPS steps to recheck, and at once when a neighbouring block
+  // is still changing. A sleeping cell holds its temperature in both buffers.
+  // The heat its awake neighbours exchange with it is held in sleepHeat and
+  // taken up when it wakes, so sleep delays that heat but never loses it.
+  private updateSleep(dt: number) {
+    const tolerance = this.sleepRate() * dt;
+    if (tolerance <= 0) return;
+    // `nextTemp` holds each awake cell's temperature at the start of the step
+    const blockCount = this.blockAwake.length;
+    for (let b = 0; b < blockCount; b++) {
+      if (!this.blockAwake[b]) continue;
+      let change = 0;
+      for (let n = this.blockStart[b]; n < this.blockStart[b + 1]; n++) {
+        const idx = this.activeCells[n];
+        change = Math.max(change, Math.abs(this.temp[idx] - this.nextTemp[idx]));
+      }
+      this.blockChange[b] = change;
+    }
+
+    for (let b = 0; b < blockCount; b++) {
+      if (this.blockAwake[b]) {
+        if (this.blockChange[b] >= tolerance) continue;
+        this.blockAwake[b] = 0;
+        this.blockIdle[b] = 0;
+        for (let n = this.blockStart[b]; n < this.blockStart[b + 1]; n++) {
+          const idx = this.activeCells[n];
+          this.nextTemp[idx] = this.temp[idx];
+        }
+      } else if (++this.blockIdle[b] >= SLEEP_CHECK_STEPS || this.neighbourChanging(b, tolerance)) {
+        this.wakeBlock(b);
+      }
+    }
+  }
+
+  // Is a block beside block `b` changing by at least `tolerance` per step?
+  private neighbourChanging(b: number, tolerance: number): boolean {
+    const bx = b % this.blocksX;
+    const count = this.blockChange.length;
+    return (bx > 0 && this.blockChange[b - 1] >= tolerance)
+      || (bx + 1 < this.blocksX && this.blockChange[b + 1] >= tolerance)
+      || (b >= this.blocksX && this.blockChange[b - this.blocksX] >= tolerance)
+      || (b + this.blocksX < count && this.blockChange[b + this.blocksX] >= tolerance);
+  }
+
+  // Stored energy of a set of cells (J)
+  private cellsEnergy(cells: number[]): number {
+    let sum = 0;
+    for (const idx of cells) {
+      sum += this.cellEnergy(idx);
+    }
+    return sum;
+  }
+
+  // Stored energy of cell `idx` (J), with any heat held for it while asleep
+  private cellEnergy(idx: number): number {
+    return this.capacity[idx] * this.temp[idx] + this.latentHeat[idx] * this.liquidFraction[idx] + this.sleepHeat[idx];
+  }
+
+  // Stored energy of every updated cell (J)
+  private domainEnergy(): number {
+    let sum = 0;
+    for (let n = 0; n < this.activeCells.length; n++) {
+      sum += this.cellEnergy(this.activeCells[n]);
+    }
+    return sum;
+  }
+
+  // Total heat capacity of the updated cells times the span between the
+  // hottest and coldest cell on the grid, fixed cells included
+  private thermalEnergyScale(): number {
+    let capacity = 0;
+    for (let n = 0; n < this.activeCells.length; n++) {
+      capacity += this.capacity[this.activeCells[n]];
+    }
+    let min = Infinity;
+    let max = -Infinity;
+    for (let idx = 0; idx < this.temp.length; idx++) {
+      min = Math.min(min, this.temp[idx]);
+      max = Math.max(max, this.temp[idx]);
+    }
+    return max > min ? capacity * (max - min) : 0;
+  }
+
+  // Energy balance: the change in stored energy of the updated cells must equal
+  // the heat that crossed in from fixed-temperature cells and surface films
+  // plus the hydration heat released inside.
+  getEnergyReport(): EnergyReport {
+    const domainEnergy = this.domainEnergy();
+    const domainChange = domainEnergy - this.initialEnergy;
+    const balanceError = domainChange - this.boundaryHeatIn - this.heatGenerated
+      + this.radiationLoss + this.evaporationLoss;
+    const exchanged = Math.max(
+      Math.abs(domainChange),
+      Math.abs(this.boundaryHeatIn),
+      Math.abs(this.heatGenerated),
+      Math.abs(this.radiationLoss + this.evaporationLoss),
+      this.energyScale
+    );
+
+    const sampleEnergy: Record<string, number> = {};
+    this.sampleCells.forEach((cells, id) => {
+      sampleEnergy[id] = this.cellsEnergy(cells);
+    });
+
+    return {
+      time: this.time,
+      domain_energy: domainEnergy,
+      fill_energy: this.cellsEnergy(this.fillCells),
+      wall_energy: this.cellsEnergy(this.wallCells),
+      sample_energy: sampleEnergy,
+      domain_change: domainChange,
+      boundary_heat_in: this.boundaryHeatIn,
+      heat_generated: this.heatGenerated,
+      radiation_loss: this.radiationLoss,
+      evaporation_loss: this.evaporationLoss,
+      balance_error: balanceError,
+      relative_error: exchanged > 0 ? Math.abs(balanceError) / exchanged : 0
+    };
+  }
+
+  // Current ambient air temperature (F)
+  getAmbientTemp(): number {
+    return this.c2f(this.ambientC);
+  }
+
+  // Thermostat bath state, or null for a fixed bath
+  getBathReport(): BathReport | null {
+    if (!this.bathState) return null;
+    return {
+      temperature: this.c2f(this.bathState.temp),
+      heater_power: this.bathState.heaterPower,
+      chiller_power: this.bathState.chillerPower,
+      heater_energy: this.bathState.heaterEnergy,
+      chiller_energy: this.bathState.chillerEnergy
+    };
   }
 
   // Get average temperature for a specific sample
@@ -223,13 +1404,86 @@ export class GridPhysicsEngine {
     if (!cells || cells.length === 0) return 0;
 
     let sum = 0;
-    for (const pos of cells) {
-      sum += this.grid[pos.y][pos.x].temp;
+    for (const idx of cells) {
+      sum += this.temp[idx];
     }
     return this.c2f(sum / cells.length);
   }
 
-  getGrid() {
-    return this.grid.map(row => row.map(cell => this.c2f(cell.temp)));
+  // Frozen fraction of the sample's freezable mass, weighted by latent heat
+  getSampleFrozenFraction(sampleId: string): number {
+    const cells = this.sampleCells.get(sampleId);
+    if (!cells) return 0;
+
+    let frozen = 0;
+    let latent = 0;
+    for (const idx of cells) {
+      frozen += this.latentHeat[idx] * (1 - this.liquidFraction[idx]);
+      latent += this.latentHeat[idx];
+    }
+    return latent > 0 ? frozen / latent : 0;
+  }
+
+  // Conductivity of the updated fill, or null when the fill is a fixed or
+  // thermostat bath
+  getFillConductivity(): FillConductivityReport | null {
+    if (this.fillCells.length === 0) return null;
+    let sumK = 0;
+    let maxK = 0;
+    let sumNu = 0;
+    for (const idx of this.fillCells) {
+      sumK += this.conductivity[idx];
+      maxK = Math.max(maxK, this.conductivity[idx]);
+      sumNu += this.nusselt[idx];
+    }
+    const n = this.fillCells.length;
+    return { mean_k: sumK / n, max_k: maxK, mean_nusselt: sumNu / n };
+  }
+
+  // Melted fraction of the fill's phase-change material (0 with no PCM)
+  getFillMeltedFraction(): number {
+    let melted = 0;
+    let latent = 0;
+    for (const idx of this.fillCells) {
+      melted += this.latentHeat[idx] * this.liquidFraction[idx];
+      latent += this.latentHeat[idx];
+    }
+    return latent > 0 ? melted / latent : 0;
+  }
+
+  // Mesh resolution and size of the last initialize()
+  getMeshSize(): { cellsPerInch: number, width: number, height: number } {
+    return { cellsPerInch: PIXELS_PER_INCH / this.cellPx, width: this.width, height: this.height };
+  }
+
+  // Temperatures (F) resampled onto the canvas's 4px display grid, so the
+  // plan canvas and interference analysis see the same grid at any mesh
+  // resolution. Points off the mesh read ambient. Row-major, for handing
+  // across a worker boundary.
+  getGridBuffer(): { data: Float32Array, width: number, height: number } {
+    const gridW = Math.ceil(this.canvasWidth / DISPLAY_CELL_PX);
+    const gridH = Math.ceil(this.canvasHeight / DISPLAY_CELL_PX);
+    const ambientF = this.c2f(this.ambientC);
+
+    const data = new Float32Array(gridW * gridH);
+    for (let gy = 0; gy < gridH; gy++) {
+      const y = Math.floor(((gy + 0.5) * DISPLAY_CELL_PX - this.originY) / this.cellPx);
+      for (let gx = 0; gx < gridW; gx++) {
+        const x = Math.floor(((gx + 0.5) * DISPLAY_CELL_PX - this.originX) / this.cellPx);
+        const onMesh = x >= 0 && y >= 0 && x < this.width && y < this.height;
+        data[gy * gridW + gx] = onMesh ? this.c2f(this.temp[this.index(x, y)]) : ambientF;
+      }
+    }
+    return { data, width: gridW, height: gridH };
+  }
+
+  // The display grid as rows
+  getGrid(): number[][] {
+    const { data, width, height } = this.getGridBuffer();
+    const rows: number[][] = [];
+    for (let y = 0; y < height; y++) {
+      rows.push(Array.from(data.subarray(y * width, (y + 1) * width)));
+    }
+    return rows;
   }
 }
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { PhysicsWorkerRequest, PhysicsWorkerResponse, SolverSettings } from '../types';
+import { GridPhysicsEngine } from './PhysicsEngine';
+import { EngineSnapshotReader } from './EngineSnapshotReader';
+import { MeshConvergenceStudy } from './MeshConvergenceStudy';
+
+// Worker script that owns the plan-view engine, so long steps at high speed
+// never block the UI thread. A step is advanced in groups of sub-steps, and
+// the worker yields between groups once SLICE_MS has passed; a pause or a new
+// initialize received meanwhile ends the step early.
+const SUBSTEPS_PER_GROUP = 20;
+const SLICE_MS = 16;
+
+const engine = new GridPhysicsEngine();
+let solver: SolverSettings = { mode: 'explicit', time_step_min: 5 };
+let stepGeneration = 0; // Bumped to cancel the step in progress
+let studyGeneration = 0; // Bumped to cancel the mesh study in progress
+
+const post = (response: PhysicsWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+const yieldToMessages = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Advance by `seconds` with the same sub-steps a single advance() would take
+const step = async (seconds: number) => {
+  const generation = ++stepGeneration;
+  const maxStep = solver.mode === 'adi'
+    ? Math.max(1, solver.time_step_min * 60)
+    : engine.getStableTimeStep();
+  const subSteps = Number.isFinite(maxStep) ? Math.max(1, Math.ceil(seconds / maxStep)) : 1;
+  const dt = seconds / subSteps;
+
+  let sliceStart = performance.now();
+  for (let done = 0; done < subSteps; done += SUBSTEPS_PER_GROUP) {
+    engine.advance(dt * Math.min(SUBSTEPS_PER_GROUP, subSteps - done));
+    if (performance.now() - sliceStart > SLICE_MS) {
+      await yieldToMessages();
+      if (generation !== stepGeneration) return;
+      sliceStart = performance.now();
+    }
+  }
+};
+
+// A mesh study runs on engines of its own, reporting progress and yielding
+// for a cancel once per slice
+const meshStudy = async (request: Extract<PhysicsWorkerRequest, { type: 'mesh-study' }>) => {
+  const generation = ++studyGeneration;
+  let sliceStart = performance.now();
+  const report = await MeshConvergenceStudy.run(
+    request.container, request.samples, request.canvas_width, request.canvas_height,
+    request.solver, request.duration_hours, request.levels,
+    async fraction => {
+      if (performance.now() - sliceStart > SLICE_MS) {
+        post({ type: 'mesh-study-progress', id: request.id, fraction });
+        await yieldToMessages();
+        sliceStart = performance.now();
+      }
+      return generation === studyGeneration;
+    }
+  );
+  post({ type: 'mesh-study', id: request.id, report });
+};
+
+const postFrame = (id: number, withGrid: boolean) => {
+  if (!withGrid) {
+    post({ type: 'frame', id, time: engine.getTime(), grid: null, grid_width: 0, grid_height: 0 });
+    return;
+  }
+  const grid = engine.getGridBuffer();
+  post({ type: 'frame', id, time: engine.getTime(), grid: grid.data, grid_width: grid.width, grid_height: grid.height }, [grid.data.buffer]);
+};
+
+const handle = async (request: PhysicsWorkerRequest) => {
+  switch (request.type) {
+    case 'initialize':
+      stepGeneration++;
+      engine.initialize(request.container, request.samples, request.canvas_width, request.canvas_height);
+      break;
+    case 'settings':
+      solver = { ...request.solver };
+      engine.setSolverSettings(request.solver);
+      break;
+    case 'step':
+      await step(request.seconds);
+      postFrame(request.id, request.with_grid);
+      break;
+    case 'pause':
+      stepGeneration++;
+      break;
+    case 'query-sample-temps':
+      post({
+        type: 'sample-temps',
+        id: request.id,
+        snapshot: EngineSnapshotReader.capture(engine, request.sample_ids, engine.getEnergyReport())
+      });
+      break;
+    case 'get-grid':
+      postFrame(request.id, true);
+      break;
+    case 'solve-steady-state':
+      stepGeneration++;
+      post({ type: 'steady-state', id: request.id, report: engine.solveSteadyState() });
+      break;
+    case 'mesh-study':
+      await meshStudy(request);
+      break;
+    case 'cancel-mesh-study':
+      studyGeneration++;
+      break;
+  }
+};
+
+// A request that throws is answered with its error, so the caller is not
+// left waiting
+self.onmessage = async (event: MessageEvent<PhysicsWorkerRequest>) => {
+  const request = event.data;
+  try {
+    await handle(request);
+  } catch (error) {
+    if ('id' in request) post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+    else console.error(error); // Nobody waits on fire-and-forget messages
+  }
+};
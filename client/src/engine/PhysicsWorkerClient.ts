@@ -0,0 +1,133 @@
+import { Container, Sample, SolverSettings, EngineSnapshot, SteadyStateReport, MeshStudyReport, PhysicsWorkerRequest, PhysicsWorkerResponse } from '../types';
+
+// Simulated time reached by a step, with the display grid when requested
+export interface PhysicsFrame {
+  time: number;
+  grid: number[][] | null;
+}
+
+// Main-thread handle on the plan-view engine running in PhysicsWorker.
+// Initialize and settings messages are fire-and-forget; the worker handles
+// messages in order, so later requests always see them. A request the worker
+// fails rejects with its error, and a worker that fails outright rejects
+// every request in flight.
+export class PhysicsWorkerClient {
+  private worker: Worker;
+  private nextId = 1;
+  private pending: Map<number, { resolve: (response: PhysicsWorkerResponse) => void, reject: (error: Error) => void }> = new Map();
+  private progress: Map<number, (fraction: number) => void> = new Map();
+
+  constructor() {
+    this.worker = new Worker(new URL('./PhysicsWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<PhysicsWorkerResponse>) => {
+      if (event.data.type === 'mesh-study-progress') {
+        this.progress.get(event.data.id)?.(event.data.fraction);
+        return;
+      }
+      const request = this.pending.get(event.data.id);
+      this.pending.delete(event.data.id);
+      if (event.data.type === 'error') request?.reject(new Error(event.data.message));
+      else request?.resolve(event.data);
+    };
+    this.worker.onerror = (event: ErrorEvent) => this.rejectAll(new Error(event.message || 'Physics worker failed'));
+    this.worker.onmessageerror = () => this.rejectAll(new Error('Physics worker message could not be read'));
+  }
+
+  initialize(container: Container, samples: Sample[], canvasWidth: number, canvasHeight: number) {
+    this.post({ type: 'initialize', container, samples, canvas_width: canvasWidth, canvas_height: canvasHeight });
+  }
+
+  setSolverSettings(settings: SolverSettings) {
+    this.post({ type: 'settings', solver: settings });
+  }
+
+  // Advance simulated time by `seconds`; resolves early, at the time
+  // reached, if paused or re-initialized meanwhile
+  async step(seconds: number, withGrid: boolean): Promise<PhysicsFrame> {
+    const id = this.nextId++;
+    return this.frameOf(await this.request({ type: 'step', id, seconds, with_grid: withGrid }, id));
+  }
+
+  pause() {
+    this.post({ type: 'pause' });
+  }
+
+  async querySampleTemps(sampleIds: string[]): Promise<EngineSnapshot> {
+    const id = this.nextId++;
+    const response = await this.request({ type: 'query-sample-temps', id, sample_ids: sampleIds }, id);
+    if (response.type !== 'sample-temps') throw new Error(`Unexpected worker response: ${response.type}`);
+    return response.snapshot;
+  }
+
+  async getGrid(): Promise<number[][] | null> {
+    const id = this.nextId++;
+    return this.frameOf(await this.request({ type: 'get-grid', id }, id)).grid;
+  }
+
+  // Replace the field with its steady state; resolves with the report and
+  // the new display grid
+  async solveSteadyState(): Promise<{ report: SteadyStateReport, grid: number[][] | null }> {
+    const id = this.nextId++;
+    const response = await this.request({ type: 'solve-steady-state', id }, id);
+    if (response.type !== 'steady-state') throw new Error(`Unexpected worker response: ${response.type}`);
+    return { report: response.report, grid: await this.getGrid() };
+  }
+
+  // Mesh convergence study in the worker (see MeshConvergenceStudy.run);
+  // resolves to null if cancelled
+  async runMeshStudy(
+    container: Container,
+    samples: Sample[],
+    canvasWidth: number,
+    canvasHeight: number,
+    solver: SolverSettings,
+    durationHours: number,
+    levels: number[],
+    onProgress: (fraction: number) => void
+  ): Promise<MeshStudyReport | null> {
+    const id = this.nextId++;
+    this.progress.set(id, onProgress);
+    try {
+      const response = await this.request({
+        type: 'mesh-study', id, container, samples, canvas_width: canvasWidth, canvas_height: canvasHeight,
+        solver, duration_hours: durationHours, levels
+      }, id);
+      if (response.type !== 'mesh-study') throw new Error(`Unexpected worker response: ${response.type}`);
+      return response.report;
+    } finally {
+      this.progress.delete(id);
+    }
+  }
+
+  cancelMeshStudy() {
+    this.post({ type: 'cancel-mesh-study' });
+  }
+
+  private post(request: PhysicsWorkerRequest) {
+    this.worker.postMessage(request);
+  }
+
+  private request(request: PhysicsWorkerRequest, id: number): Promise<PhysicsWorkerResponse> {
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.post(request);
+    });
+  }
+
+  private rejectAll(error: Error) {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+
+  // Row-major grid buffer to the rows the canvas draws
+  private frameOf(response: PhysicsWorkerResponse): PhysicsFrame {
+    if (response.type !== 'frame') throw new Error(`Unexpected worker response: ${response.type}`);
+    if (!response.grid) return { time: response.time, grid: null };
+    const rows: number[][] = [];
+    for (let y = 0; y < response.grid_height; y++) {
+      const start = y * response.grid_width;
+      rows.push(Array.from(response.grid.subarray(start, start + response.grid_width)));
+    }
+    return { time: response.time, grid: rows };
+  }
+}
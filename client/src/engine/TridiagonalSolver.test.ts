@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { TridiagonalSolver } from './TridiagonalSolver';
+
+describe('TridiagonalSolver', () => {
+  it('solves a diagonally dominant system', () => {
+    // [4 1 0 0; 1 4 1 0; 0 1 4 1; 0 0 1 4] x = A [1 2 3 4]
+    const lower = new Float64Array([0, 1, 1, 1]);
+    const diag = new Float64Array([4, 4, 4, 4]);
+    const upper = new Float64Array([1, 1, 1, 0]);
+    const rhs = new Float64Array([6, 12, 18, 19]);
+    const out = new Float64Array(4);
+    TridiagonalSolver.solve(lower, diag, upper, rhs, out, 4, new Float64Array(4));
+    [1, 2, 3, 4].forEach((x, i) => expect(out[i]).toBeCloseTo(x, 12));
+  });
+
+  it('passes fixed end rows through unchanged', () => {
+    // Identity rows at both ends, as for the fixed cells bounding a grid line
+    const lower = new Float64Array([0, -1, 0]);
+    const diag = new Float64Array([1, 3, 1]);
+    const upper = new Float64Array([0, -1, 0]);
+    const rhs = new Float64Array([10, 5, 40]);
+    const out = new Float64Array(3);
+    TridiagonalSolver.solve(lower, diag, upper, rhs, out, 3, new Float64Array(3));
+    expect(out[0]).toBe(10);
+    expect(out[2]).toBe(40);
+    expect(out[1]).toBeCloseTo((5 + 10 + 40) / 3, 12);
+  });
+
+  it('solves only the first n rows of longer buffers', () => {
+    const lower = new Float64Array([0, 1, 99]);
+    const diag = new Float64Array([2, 2, 99]);
+    const upper = new Float64Array([1, 0, 99]);
+    const rhs = new Float64Array([3, 3, 99]);
+    const out = new Float64Array(3).fill(-1);
+    TridiagonalSolver.solve(lower, diag, upper, rhs, out, 2, new Float64Array(3));
+    expect(out[0]).toBeCloseTo(1, 12);
+    expect(out[1]).toBeCloseTo(1, 12);
+    expect(out[2]).toBe(-1);
+  });
+});
@@ -0,0 +1,31 @@
+export class TridiagonalSolver {
+  // Solve a tridiagonal system with the Thomas algorithm.
+  // Row i reads: lower[i] * x[i-1] + diag[i] * x[i] + upper[i] * x[i+1] = rhs[i]
+  // lower[0] and upper[n-1] are ignored. `scratch` must hold at least n values
+  // and is overwritten; the system must be diagonally dominant (no pivoting).
+  static solve(
+    lower: Float64Array,
+    diag: Float64Array,
+    upper: Float64Array,
+    rhs: Float64Array,
+    out: Float64Array,
+    n: number,
+    scratch: Float64Array
+  ) {
+    if (n === 0) return;
+
+    // Forward elimination
+    scratch[0] = upper[0] / diag[0];
+    out[0] = rhs[0] / diag[0];
+    for (let i = 1; i < n; i++) {
+      const denom = diag[i] - lower[i] * scratch[i - 1];
+      scratch[i] = upper[i] / denom;
+      out[i] = (rhs[i] - lower[i] * out[i - 1]) / denom;
+    }
+
+    // Back substitution
+    for (let i = n - 2; i >= 0; i--) {
+      out[i] -= scratch[i] * out[i + 1];
+    }
+  }
+}
@@ -0,0 +1,822 @@
+import { Container, ContainerPanel, Sample, Material, SolverSettings, ConvectionSettings, HydrationSettings, PhaseChange, ContactResistance, AmbientSchedule, WeatherSettings, BathSettings, BathReport, FillConductivityReport, SurfaceLossSettings } from '../types';
+import { MaterialLibrary } from './MaterialLibrary';
+import { TridiagonalSolver } from './TridiagonalSolver';
+import { HydrationModel } from './HydrationModel';
+import { PhaseChangeModel } from './PhaseChangeModel';
+import { ContactResistanceModel, SAMPLE_LAYERS } from './ContactResistanceModel';
+import { AmbientScheduleModel } from './AmbientScheduleModel';
+import { WeatherModel, WeatherConditions } from './WeatherModel';
+import { BathModel, BathState } from './BathModel';
+import { NaturalConvectionModel } from './NaturalConvectionModel';
+import { SurfaceLossModel } from './SurfaceLossModel';
+import { PIXELS_PER_INCH } from '../const';
+
+// Constants
+// 1 voxel = 0.25" cube. The model runs on the main thread, where a mesh fine
+// enough for the 0.1" mold layers would be too slow, so thinner layers are
+// only partly resolved (see thinnestLayerIn).
+const VOXEL_SIZE_IN = 0.25;
+const VOXEL_SIZE_M = VOXEL_SIZE_IN * 0.0254; // m
+const SLICE_CELL_PX = 4; // Slices are returned on the plan view's 4px grid
+// Fraction of the explicit stability limit used for each sub-step
+const STABILITY_SAFETY_FACTOR = 0.9;
+// Temperature drift (°C) before a cell's table properties are re-evaluated
+const PROPERTY_TOLERANCE_C = 0.05;
+// Change in the wind-driven film coefficient (W/(m²·K)) before faces are relinked
+const WIND_FILM_TOLERANCE = 0.25;
+// Relative change in a water voxel's Nusselt number before its faces are relinked
+const NUSSELT_TOLERANCE = 0.05;
+
+// Full 3D model of the container extruded to its depth. Voxels are stored in
+// flat typed arrays indexed (z * ny + y) * nx + x, with z = 0 just under the
+// lid. The container is wrapped in one layer of fixed ambient voxels: the
+// side walls, the floor and the lid/top boundary. With convection enabled the
+// side wall and lid faces lose heat through a surface film instead. A lid or
+// floor panel adds its resistance to the top or floor face; without a panel
+// the floor passes no heat, as in the plan view.
+export class VoxelEngine {
+  private nx: number = 0;
+  private ny: number = 0;
+  private nz: number = 0;
+  private temp = new Float64Array(0); // Celsius
+  private nextTemp = new Float64Array(0);
+  private capacity = new Float64Array(0); // rho * cp * volume (J/K)
+  private condX = new Float64Array(0); // Conductance to voxel x+1 (W/K)
+  private condY = new Float64Array(0); // Conductance to voxel y+1 (W/K)
+  private condZ = new Float64Array(0); // Conductance to voxel z+1 (W/K)
+  private fixed = new Uint8Array(0); // 1 = fixed-temperature voxel
+  private conductivity = new Float64Array(0); // At the current temperature (W/(m·K)), times nusselt
+  private nusselt = new Float64Array(0); // Natural-convection enhancement (1 = conduction only)
+  private outside = new Uint8Array(0); // 1 = outside the container
+  private latentHeat = new Float64Array(0); // Latent heat of the voxel's mass (J)
+  private liquidFraction = new Float64Array(0); // 1 = fully liquid
+  private layer = new Uint8Array(0); // Index into SAMPLE_LAYERS
+  private sampleIndex = new Int16Array(0); // Index into `samples`, -1 = none
+  private contacts: (ContactResistance | null)[] = []; // By sample index
+  private time: number = 0; // Simulated seconds since initialize()
+  private stableTimeStep: number = Infinity; // Largest stable explicit step (s)
+  private solver: SolverSettings = { mode: 'explicit', time_step_min: 5 };
+  private convection: ConvectionSettings | null = null; // null = fixed air cells
+  private stillAir: ConvectionSettings | null = null; // Films before any wind
+  private weather: WeatherSettings | undefined;
+  // Parsed start of the weather run and the conditions reused every sub-step
+  private weatherStart = 0;
+  private weatherConditions: WeatherConditions = { dry_bulb_f: 0, wind_speed_mph: 0, solar_w_m2: 0 };
+  private solarFlux: number = 0; // Absorbed by the lid (W/m²)
+  private lidVoxels: {idx: number, openWater: boolean}[] = []; // Free voxels just under the lid
+  private surfaceLosses: SurfaceLossSettings | null = null; // Radiation / evaporation
+  private lidResistance: number | null = null; // m²·K/W, null = open top
+  private floorResistance: number | null = null; // m²·K/W, null = no floor panel
+  // Thermostat bath (see GridPhysicsEngine); null = fixed bath or no water
+  private bath: BathSettings | null = null;
+  private bathState: BathState | null = null;
+  private bathVoxels: number[] = [];
+  private bathCapacity: number = 0; // J/K
+  private ambientC: number = 0;
+  private ambientSchedule: AmbientSchedule | undefined;
+  private meanAmbientF: number = 0;
+  private ambientVoxels: number[] = []; // Outside air that follows the schedule
+  private sliceDepthIn: number = 0;
+  private wallIn: number = 0; // Side wall thickness outside the fill (inches)
+  // Fill origin (top-left corner) and canvas size in pixels
+  private originX: number = 0;
+  private originY: number = 0;
+  private canvasWidth: number = 0;
+  private canvasHeight: number = 0;
+  // Cache sample ID to voxel indices mapping for fast temperature lookup
+  private sampleVoxels: Map<string, number[]> = new Map();
+  // Core voxels releasing hydration heat, with their equivalent age (s)
+  private hydrationVoxels: {idx: number, mass: number, age: number, settings: HydrationSettings}[] = [];
+  // Free voxels whose material has temperature tables, with the temperature
+  // their properties were last evaluated at
+  private variableVoxels: {idx: number, material: Material, evaluatedAt: number}[] = [];
+  // Free voxels that can freeze
+  private phaseVoxels: {idx: number, phase: PhaseChange, inFill: boolean}[] = [];
+  private fillVoxels: number[] = []; // Free fill voxels
+  // Passive water fill voxels whose conductivity carries natural convection
+  private convectionVoxels: {idx: number, material: Material}[] = [];
+  private fillDepthM: number = 0; // Water depth driving natural convection
+  // Scratch arrays for the ADI line solves, sized to the longest voxel line
+  private lineBuffers = {
+    lower: new Float64Array(0),
+    diag: new Float64Array(0),
+    upper: new Float64Array(0),
+    rhs: new Float64Array(0),
+    solution: new Float64Array(0),
+    scratch: new Float64Array(0)
+  };
+
+  // Convert F to C
+  f2c(f: number): number { return (f - 32) * 5 / 9; }
+  // Convert C to F
+  c2f(c: number): number { return c * 9 / 5 + 32; }
+
+  initialize(container: Container, samples: Sample[], canvasWidth: number, canvasHeight: number) {
+    this.time = 0;
+    this.sampleVoxels.clear();
+    this.hydrationVoxels = [];
+    this.variableVoxels = [];
+    this.phaseVoxels = [];
+    this.fillVoxels = [];
+    this.convectionVoxels = [];
+    const passiveWater = container.fill_type === 'Water' && BathModel.isPassive(container.bath);
+    this.bathVoxels = [];
+    this.bath = container.fill_type === 'Water' && BathModel.isLumped(container.bath) ? container.bath! : null;
+    this.stillAir = container.convection?.enabled ? container.convection : null;
+    this.convection = this.stillAir;
+    this.surfaceLosses = SurfaceLossModel.isActive(container.surface_losses) ? container.surface_losses! : null;
+    this.canvasWidth = canvasWidth;
+    this.canvasHeight = canvasHeight;
+
+    const widthPx = container.width;
+    const heightPx = container.shape === 'circle' ? container.width : container.height;
+    this.originX = canvasWidth / 2 - widthPx / 2;
+    this.originY = canvasHeight / 2 - heightPx / 2;
+
+    const widthIn = widthPx / PIXELS_PER_INCH;
+    const heightIn = heightPx / PIXELS_PER_INCH;
+    const depthIn = Math.max(container.depth / PIXELS_PER_INCH, VOXEL_SIZE_IN);
+    this.fillDepthM = depthIn * 0.0254;
+    this.wallIn = container.wall_thickness_in ?? 0;
+
+    // Fill and side walls, plus one fixed layer on every side
+    this.nx = Math.ceil((widthIn + 2 * this.wallIn) / VOXEL_SIZE_IN) + 2;
+    this.ny = Math.ceil((heightIn + 2 * this.wallIn) / VOXEL_SIZE_IN) + 2;
+    this.nz = Math.ceil(depthIn / VOXEL_SIZE_IN) + 2;
+    const count = this.nx * this.ny * this.nz;
+
+    this.temp = new Float64Array(count);
+    this.nextTemp = new Float64Array(count);
+    this.capacity = new Float64Array(count);
+    this.condX = new Float64Array(count);
+    this.condY = new Float64Array(count);
+    this.condZ = new Float64Array(count);
+    this.fixed = new Uint8Array(count);
+    this.conductivity = new Float64Array(count);
+    this.nusselt = new Float64Array(count).fill(1);
+    this.outside = new Uint8Array(count);
+    this.latentHeat = new Float64Array(count);
+    this.liquidFraction = new Float64Array(count).fill(1);
+    this.layer = new Uint8Array(count);
+    this.sampleIndex = new Int16Array(count).fill(-1);
+    this.contacts = samples.map(s => s.contact_resistance ?? null);
+
+    this.ambientSchedule = AmbientScheduleModel.sorted(container.ambient_schedule);
+    this.meanAmbientF = container.ambient_temperature;
+    this.weather = container.weather;
+    this.weatherStart = WeatherModel.isActive(this.weather) ? WeatherModel.startTimestamp(this.weather!) : 0;
+    this.ambientVoxels = [];
+    this.lidVoxels = [];
+    this.ambientC = this.f2c(this.ambientAt(0));
+    this.lidResistance = this.panelResistance(container.lid, this.ambientC);
+    this.floorResistance = this.panelResistance(container.floor, this.ambientC);
+    this.solarFlux = 0;
+    const conditions = WeatherModel.conditionsAt(this.weather, 0, this.weatherStart, this.weatherConditions);
+    if (conditions) {
+      if (this.stillAir) this.convection = WeatherModel.windFilm(this.stillAir, conditions.wind_speed_mph);
+      this.solarFlux = conditions.solar_w_m2 * this.weather!.solar_absorptance;
+    }
+    let fillTempC = this.ambientC;
+    if (container.fill_type === 'Water' && container.water_temperature !== undefined) {
+      fillTempC = this.f2c(container.water_temperature);
+    } else if (container.fill_type === 'PCM' && container.pcm) {
+      fillTempC = this.f2c(container.pcm.initial_temperature_f);
+    }
+    const air = MaterialLibrary.getMaterials()['Air'];
+    const voxelVolume = VOXEL_SIZE_M ** 3;
+
+    // Sample geometry in container inches. Each cylinder hangs in its well with
+    // its top flush with the top surface: core over the full cylinder height,
+    // then the plastic liner bottom and the aluminum sleeve bottom below it.
+    const cylinders = samples.map((s, index) => {
+      const outerRadiusIn = s.radius / PIXELS_PER_INCH;
+      const middleRadiusIn = outerRadiusIn - s.outer_thickness_in;
+      const coreRadiusIn = middleRadiusIn - s.middle_thickness_in;
+      const cylinderHeightIn = s.size === '2x4' ? 4 : 8;
+      const coreVolumeM3 = Math.PI * (coreRadiusIn * 0.0254) ** 2 * (cylinderHeightIn * 0.0254);
+      const middleBottomIn = cylinderHeightIn + s.middle_thickness_in;
+      return {
+        sample: s,
+        index,
+        centerXIn: (s.x - this.originX) / PIXELS_PER_INCH,
+        centerYIn: (s.y - this.originY) / PIXELS_PER_INCH,
+        outerRadiusIn,
+        middleRadiusIn,
+        coreRadiusIn,
+        coreBottomIn: cylinderHeightIn,
+        middleBottomIn,
+        outerBottomIn: middleBottomIn + s.outer_thickness_in,
+        // Core density from the water mass, as in the plan view
+        coreMat: {
+          ...s.core_material,
+          density: (s.water_mass_lbs * 0.453592) / coreVolumeM3,
+          density_table: undefined
+        } as Material
+      };
+    });
+
+    for (let z = 0; z < this.nz; z++) {
+      const depthCenterIn = (z - 0.5) * VOXEL_SIZE_IN;
+      for (let y = 0; y < this.ny; y++) {
+        // Voxel centres relative to the fill's top-left corner
+        const yIn = (y - 0.5) * VOXEL_SIZE_IN - this.wallIn;
+        for (let x = 0; x < this.nx; x++) {
+          const xIn = (x - 0.5) * VOXEL_SIZE_IN - this.wallIn;
+          const idx = this.index(x, y, z);
+
+          let insideContainer = x > 0 && y > 0 && z > 0
+            && x < this.nx - 1 && y < this.ny - 1 && z < this.nz - 1;
+          let insideFill = false;
+          if (insideContainer) {
+            if (container.shape === 'circle') {
+              const r = widthIn / 2;
+              const dist = Math.sqrt((xIn - r) ** 2 + (yIn - r) ** 2);
+              insideFill = dist <= r;
+              insideContainer = dist <= r + this.wallIn;
+            } else {
+              insideFill = xIn >= 0 && xIn <= widthIn && yIn >= 0 && yIn <= heightIn;
+            }
+          }
+
+          let material = air;
+          let t = this.ambientC;
+          let isFixed = !insideContainer;
+
+          if (insideContainer && !insideFill) {
+            // Side wall, starting at ambient
+            material = container.wall_material;
+          } else if (insideContainer) {
+            material = container.fill_material;
+            t = fillTempC;
+            // A controlled water bath holds its temperature
+            isFixed = container.fill_type === 'Water' && !passiveWater;
+
+            for (const c of cylinders) {
+              const dist = Math.sqrt((xIn - c.centerXIn) ** 2 + (yIn - c.centerYIn) ** 2);
+              if (dist > c.outerRadiusIn || depthCenterIn > c.outerBottomIn) continue;
+
+              const s = c.sample;
+              this.sampleIndex[idx] = c.index;
+              if (dist <= c.coreRadiusIn && depthCenterIn <= c.coreBottomIn) {
+                material = c.coreMat;
+                this.layer[idx] = SAMPLE_LAYERS.indexOf('core');
+                if (s.hydration?.enabled) {
+                  this.hydrationVoxels.push({ idx, mass: c.coreMat.density * voxelVolume, age: 0, settings: s.hydration });
+                }
+              } else if (dist <= c.middleRadiusIn && depthCenterIn <= c.middleBottomIn) {
+                material = s.middle_material;
+                this.layer[idx] = SAMPLE_LAYERS.indexOf('middle');
+              } else {
+                material = s.outer_material;
+                this.layer[idx] = SAMPLE_LAYERS.indexOf('outer');
+              }
+              t = this.f2c(s.initial_temperature);
+              isFixed = false;
+
+              if (!this.sampleVoxels.has(s.id)) this.sampleVoxels.set(s.id, []);
+              this.sampleVoxels.get(s.id)?.push(idx);
+              break;
+            }
+          }
+
+          const props = MaterialLibrary.getProperties(material, t);
+          this.conductivity[idx] = props.thermal_conductivity;
+          this.outside[idx] = insideContainer ? 0 : 1;
+          if (!insideContainer) this.ambientVoxels.push(idx);
+          this.capacity[idx] = props.density * props.specific_heat * voxelVolume;
+          if (!isFixed && MaterialLibrary.hasPropertyTables(material)) {
+            this.variableVoxels.push({ idx, material, evaluatedAt: t });
+          }
+          if (!isFixed && material.phase_change) {
+            const phase = material.phase_change;
+            this.latentHeat[idx] = phase.latent_heat * props.density * voxelVolume;
+            this.liquidFraction[idx] = PhaseChangeModel.liquidFraction(t, phase);
+            this.phaseVoxels.push({ idx, phase, inFill: material === container.fill_material });
+          }
+          this.temp[idx] = t;
+          this.nextTemp[idx] = t;
+          this.fixed[idx] = isFixed ? 1 : 0;
+          if (z === 1 && !isFixed) this.lidVoxels.push({ idx, openWater: SurfaceLossModel.isOpenWater(material) });
+          if (this.bath && isFixed && insideContainer) this.bathVoxels.push(idx);
+          if (!isFixed && this.sampleIndex[idx] < 0 && material === container.fill_material) {
+            this.fillVoxels.push(idx);
+            if (passiveWater) this.convectionVoxels.push({ idx, material });
+          }
+        }
+      }
+    }
+
+    this.bathCapacity = this.bathVoxels.reduce((sum, idx) => sum + this.capacity[idx], 0);
+    this.bathState = this.bath ? BathModel.createState(fillTempC) : null;
+
+    this.buildConductances();
+    this.stableTimeStep = this.computeStableTimeStep();
+    this.sliceDepthIn = Math.min(this.sliceDepthIn, depthIn);
+
+    const lineLength = Math.max(this.nx, this.ny, this.nz);
+    this.lineBuffers = {
+      lower: new Float64Array(lineLength),
+      diag: new Float64Array(lineLength),
+      upper: new Float64Array(lineLength),
+      rhs: new Float64Array(lineLength),
+      solution: new Float64Array(lineLength),
+      scratch: new Float64Array(lineLength)
+    };
+  }
+
+  private index(x: number, y: number, z: number): number {
+    return (z * this.ny + y) * this.nx + x;
+  }
+
+  // Face conductance k_face * area / distance = k_face * voxel size, with the
+  // harmonic mean of the two voxels' conductivities
+  private buildConductances() {
+    for (let z = 0; z < this.nz; z++) {
+      for (let y = 0; y < this.ny; y++) {
+        for (let x = 0; x < this.nx; x++) {
+          this.linkVoxel(x, y, z);
+        }
+      }
+    }
+  }
+
+  // Conductances owned by voxel (x, y, z): its x+1, y+1 and z+1 faces. The
+  // lid sits between layers 0 and 1 and the floor between the last two; the
+  // floor is adiabatic unless it has a panel, whose underside takes the wall
+  // film as in the plan view.
+  private linkVoxel(x: number, y: number, z: number) {
+    const idx = this.index(x, y, z);
+    const floor = z === this.nz - 2 && this.floorResistance !== null;
+    const adiabatic = z === this.nz - 2 && this.floorResistance === null;
+    const downH = z === 0 ? this.convection?.top_h : floor ? this.convection?.wall_h : undefined;
+    const downPanel = z === 0 ? this.lidResistance : floor ? this.floorResistance : null;
+    const sideH = z > 0 && z < this.nz - 1 ? this.convection?.wall_h : undefined;
+    if (x + 1 < this.nx) this.condX[idx] = this.faceConductance(idx, idx + 1, sideH);
+    if (y + 1 < this.ny) this.condY[idx] = this.faceConductance(idx, idx + this.nx, sideH);
+    if (z + 1 < this.nz) {
+      this.condZ[idx] = adiabatic ? 0 : this.faceConductance(idx, idx + this.nx * this.ny, downH, downPanel);
+    }
+  }
+
+  // A film coefficient `h` and a lid or floor panel apply where the face
+  // crosses the container's outer surface; faces between mold layers carry
+  // the contact resistance
+  private faceConductance(a: number, b: number, h: number | undefined, panel: number | null = null): number {
+    if ((h !== undefined || panel !== null) && this.outside[a] !== this.outside[b]) {
+      const inner = this.outside[a] ? b : a;
+      return panel !== null
+        ? this.panelConductance(panel, h, this.conductivity[inner])
+        : this.filmConductance(h!, this.conductivity[inner], VOXEL_SIZE_M ** 2, VOXEL_SIZE_M / 2);
+    }
+    const conduction = this.harmonicMean(this.conductivity[a], this.conductivity[b]) * VOXEL_SIZE_M;
+    if (this.layer[a] === this.layer[b]) return conduction;
+    const sample = this.sampleIndex[a] >= 0 ? this.sampleIndex[a] : this.sampleIndex[b];
+    return ContactResistanceModel.apply(
+      conduction,
+      VOXEL_SIZE_M ** 2,
+      SAMPLE_LAYERS[this.layer[a]],
+      SAMPLE_LAYERS[this.layer[b]],
+      sample >= 0 ? this.contacts[sample] : null
+    );
+  }
+
+  // Re-evaluate temperature-dependent properties before a step (see
+  // GridPhysicsEngine.updateProperties)
+  private updateProperties() {
+    const voxelVolume = VOXEL_SIZE_M ** 3;
+    for (const v of this.variableVoxels) {
+      const t = this.temp[v.idx];
+      if (Math.abs(t - v.evaluatedAt) < PROPERTY_TOLERANCE_C) continue;
+      v.evaluatedAt = t;
+      const props = MaterialLibrary.getProperties(v.material, t);
+      this.capacity[v.idx] = props.density * props.specific_heat * voxelVolume;
+      this.conductivity[v.idx] = props.thermal_conductivity * this.nusselt[v.idx];
+      const x = v.idx % this.nx;
+      const y = Math.floor(v.idx / this.nx) % this.ny;
+      const z = Math.floor(v.idx / (this.nx * this.ny));
+      this.linkVoxel(x, y, z);
+      this.linkVoxel(x - 1, y, z);
+      this.linkVoxel(x, y - 1, z);
+      this.linkVoxel(x, y, z - 1);
+    }
+  }
+
+  // Passive water fill (see GridPhysicsEngine.updateNaturalConvection)
+  private updateNaturalConvection(): boolean {
+    if (this.convectionVoxels.length === 0) return false;
+    let energy = 0;
+    let capacity = 0;
+    for (const { idx } of this.convectionVoxels) {
+      energy += this.capacity[idx] * this.temp[idx];
+      capacity += this.capacity[idx];
+    }
+    const bulkC = energy / capacity;
+    let relinked = false;
+
+    for (const { idx, material } of this.convectionVoxels) {
+      const t = this.temp[idx];
+      const props = MaterialLibrary.getProperties(material, t);
+      const nusselt = NaturalConvectionModel.nusselt(t - bulkC, this.fillDepthM, t, props, this.liquidFraction[idx]);
+      if (Math.abs(nusselt - this.nusselt[idx]) < NUSSELT_TOLERANCE * this.nusselt[idx]) continue;
+      this.nusselt[idx] = nusselt;
+      this.conductivity[idx] = props.thermal_conductivity * nusselt;
+      relinked = true;
+      const x = idx % this.nx;
+      const y = Math.floor(idx / this.nx) % this.ny;
+      const z = Math.floor(idx / (this.nx * this.ny));
+      this.linkVoxel(x, y, z);
+      this.linkVoxel(x - 1, y, z);
+      this.linkVoxel(x, y - 1, z);
+      this.linkVoxel(x, y, z - 1);
+    }
+    return relinked;
+  }
+
+  private harmonicMean(a: number, b: number): number {
+    return a + b > 0 ? (2 * a * b) / (a + b) : 0;
+  }
+
+  // Surface film h in series with conduction from the voxel centre to the
+  // surface: G = A / (1/h + d/k)
+  private filmConductance(h: number, k: number, area: number, halfThickness: number): number {
+    if (h <= 0) return 0;
+    return area / (1 / h + (k > 0 ? halfThickness / k : 0));
+  }
+
+  // Voxel centre to ambient through a lid or floor panel, then its film when
+  // `h` is set (see GridPhysicsEngine.panelConductance)
+  private panelConductance(panelResistance: number, h: number | undefined, k: number): number {
+    if (h !== undefined && h <= 0) return 0;
+    const resistance = (k > 0 ? (VOXEL_SIZE_M / 2) / k : 0) + panelResistance + (h !== undefined ? 1 / h : 0);
+    return resistance > 0 ? VOXEL_SIZE_M ** 2 / resistance : 0;
+  }
+
+  // Conduction resistance per unit area (m²·K/W) of a lid or floor
+  // (see GridPhysicsEngine.panelResistance)
+  private panelResistance(panel: ContainerPanel | undefined, tempC: number): number | null {
+    if (!panel) return null;
+    const k = MaterialLibrary.getProperties(panel.material, tempC).thermal_conductivity;
+    const thicknessM = panel.thickness_in * 0.0254;
+    return k > 0 ? thicknessM / k : 0;
+  }
+
+  private computeStableTimeStep(): number {
+    const strideY = this.nx;
+    const strideZ = this.nx * this.ny;
+    let minStep = Infinity;
+    for (let idx = 0; idx < this.temp.length; idx++) {
+      if (this.fixed[idx]) continue;
+      // Free voxels never touch the array edges (the outer layer is fixed)
+      const totalConductance = this.condX[idx] + this.condX[idx - 1]
+        + this.condY[idx] + this.condY[idx - strideY]
+        + this.condZ[idx] + this.condZ[idx - strideZ];
+      if (totalConductance > 0) {
+        minStep = Math.min(minStep, this.capacity[idx] / totalConductance);
+      }
+    }
+    return STABILITY_SAFETY_FACTOR * minStep;
+  }
+
+  // Simulated time in seconds
+  getTime(): number {
+    return this.time;
+  }
+
+  getDepthIn(): number {
+    return Math.max(0, (this.nz - 2) * VOXEL_SIZE_IN);
+  }
+
+  static getVoxelSizeIn(): number {
+    return VOXEL_SIZE_IN;
+  }
+
+  // Thinnest mold layer (in) among `samples`, or Infinity with none. Layers
+  // thinner than a voxel are only partly resolved.
+  static thinnestLayerIn(samples: Sample[]): number {
+    return samples.reduce((min, s) => Math.min(min, s.outer_thickness_in, s.middle_thickness_in), Infinity);
+  }
+
+  // Depth below the lid of the slice returned by getGrid()
+  setSliceDepth(depthIn: number) {
+    this.sliceDepthIn = Math.max(0, Math.min(depthIn, this.getDepthIn()));
+  }
+
+  setSolverSettings(settings: SolverSettings) {
+    this.solver = { ...settings };
+  }
+
+  // Advance simulated time by exactly `seconds` (see GridPhysicsEngine.advance)
+  advance(seconds: number) {
+    if (seconds <= 0 || this.temp.length === 0) return;
+    const useADI = this.solver.mode === 'adi';
+    // Properties are refreshed before every step, the stability limit once
+    // per call (it drifts only slowly with temperature)
+    this.updateProperties();
+    const relinked = this.updateNaturalConvection();
+    const filmChanged = this.updateWindFilm(this.time);
+    if (relinked || filmChanged || this.variableVoxels.length > 0) this.stableTimeStep = this.computeStableTimeStep();
+    const maxStep = useADI
+      ? Math.max(1, this.solver.time_step_min * 60)
+      : this.stableTimeStep;
+    const subSteps = Math.max(1, Math.ceil(seconds / maxStep));
+    const dt = seconds / subSteps;
+    for (let i = 0; i < subSteps; i++) {
+      if (i > 0) this.updateProperties();
+      this.updateAmbient(this.time + dt);
+      if (useADI) {
+        this.integrateADI(dt);
+      } else {
+        this.integrate(dt);
+      }
+      this.updateBath(dt);
+      this.absorbSolar(dt);
+      this.applySurfaceLosses(dt);
+      this.releaseHydrationHeat(dt);
+      this.settlePhases();
+    }
+  }
+
+  // Weather-file or scheduled ambient (F) (see GridPhysicsEngine.ambientAt)
+  private ambientAt(seconds: number): number {
+    const conditions = WeatherModel.conditionsAt(this.weather, seconds, this.weatherStart, this.weatherConditions);
+    return conditions
+      ? conditions.dry_bulb_f
+      : AmbientScheduleModel.temperatureAt(this.ambientSchedule, this.meanAmbientF, seconds);
+  }
+
+  // Scheduled ambient (see GridPhysicsEngine.updateAmbient)
+  private updateAmbient(seconds: number) {
+    const conditions = WeatherModel.conditionsAt(this.weather, seconds, this.weatherStart, this.weatherConditions);
+    if (!conditions && !AmbientScheduleModel.isTimeVarying(this.ambientSchedule)) return;
+    this.ambientC = this.f2c(this.ambientAt(seconds));
+    for (const idx of this.ambientVoxels) {
+      this.temp[idx] = this.ambientC;
+    }
+    if (conditions) this.solarFlux = conditions.solar_w_m2 * this.weather!.solar_absorptance;
+  }
+
+  // Wind-driven films (see GridPhysicsEngine.updateWindFilm)
+  private updateWindFilm(seconds: number): boolean {
+    const conditions = WeatherModel.conditionsAt(this.weather, seconds, this.weatherStart, this.weatherConditions);
+    if (!conditions || !this.stillAir || !this.convection) return false;
+    const film = WeatherModel.windFilm(this.stillAir, conditions.wind_speed_mph);
+    if (Math.abs(film.top_h - this.convection.top_h) < WIND_FILM_TOLERANCE) return false;
+    this.convection = film;
+    this.buildConductances();
+    return true;
+  }
+
+  // Lumped bath update (see GridPhysicsEngine.updateBath). The lid film and
+  // side walls are ordinary faces here, so only the solar gain is added.
+  private updateBath(dt: number) {
+    if (!this.bath || !this.bathState) return;
+    const bathC = this.bathState.temp;
+    const strideY = this.nx;
+    const strideZ = this.nx * this.ny;
+    const flowTo = (conductance: number, other: number) =>
+      this.fixed[other] && !this.outside[other] ? 0 : conductance * (bathC - this.temp[other]);
+
+    let heatOut = 0; // W
+    let lidArea = 0;
+    for (const idx of this.bathVoxels) {
+      // Bath voxels never touch the array edges (the outer layer is air)
+      heatOut += flowTo(this.condX[idx], idx + 1) + flowTo(this.condX[idx - 1], idx - 1)
+        + flowTo(this.condY[idx], idx + strideY) + flowTo(this.condY[idx - strideY], idx - strideY)
+        + flowTo(this.condZ[idx], idx + strideZ) + flowTo(this.condZ[idx - strideZ], idx - strideZ);
+      if (idx < 2 * strideZ) lidArea += VOXEL_SIZE_M ** 2;
+    }
+    heatOut -= this.solarFlux * lidArea;
+    if (this.surfaceLosses) {
+      const skyC = SurfaceLossModel.skyTemperatureC(this.surfaceLosses, this.ambientC);
+      const flux = SurfaceLossModel.flux(this.surfaceLosses, bathC, this.ambientC, skyC, this.lidResistance === null ? 1 : 0);
+      heatOut += (flux.radiation + flux.evaporation) * lidArea;
+    }
+
+    BathModel.step(this.bath, this.bathState, this.bathCapacity, heatOut, dt, this.bathState);
+    for (const idx of this.bathVoxels) {
+      this.temp[idx] = this.bathState.temp;
+    }
+  }
+
+  // Top-surface radiation and evaporation (see GridPhysicsEngine.applySurfaceLosses)
+  private applySurfaceLosses(dt: number) {
+    if (!this.surfaceLosses) return;
+    const skyC = SurfaceLossModel.skyTemperatureC(this.surfaceLosses, this.ambientC);
+    const area = VOXEL_SIZE_M ** 2;
+    const open = this.lidResistance === null;
+    for (const { idx, openWater } of this.lidVoxels) {
+      const wet = open && openWater ? this.liquidFraction[idx] : 0;
+      const flux = SurfaceLossModel.flux(this.surfaceLosses, this.temp[idx], this.ambientC, skyC, wet);
+      this.temp[idx] += SurfaceLossModel.cool(flux, this.capacity[idx], area, dt).change;
+    }
+  }
+
+  // Solar gain under the lid (see GridPhysicsEngine.absorbSolar)
+  private absorbSolar(dt: number) {
+    if (this.solarFlux <= 0) return;
+    const heat = this.solarFlux * VOXEL_SIZE_M ** 2 * dt;
+    for (const { idx } of this.lidVoxels) {
+      this.temp[idx] += heat / this.capacity[idx];
+    }
+  }
+
+  // Hydration heat source (see GridPhysicsEngine.releaseHydrationHeat)
+  private releaseHydrationHeat(dt: number) {
+    for (const h of this.hydrationVoxels) {
+      const nextAge = h.age + dt * HydrationModel.ageRate(this.temp[h.idx], h.settings);
+      const heat = h.mass * HydrationModel.heatReleased(h.age, nextAge, h.settings);
+      h.age = nextAge;
+      this.temp[h.idx] += heat / this.capacity[h.idx];
+    }
+  }
+
+  private integrate(dt: number) {
+    this.time += dt;
+    const strideY = this.nx;
+    const strideZ = this.nx * this.ny;
+    const t = this.temp;
+
+    for (let idx = 0; idx < t.length; idx++) {
+      if (this.fixed[idx]) {
+        this.nextTemp[idx] = t[idx];
+        continue;
+      }
+      const heatIn =
+        this.condX[idx - 1] * (t[idx - 1] - t[idx]) +
+        this.condX[idx] * (t[idx + 1] - t[idx]) +
+        this.condY[idx - strideY] * (t[idx - strideY] - t[idx]) +
+        this.condY[idx] * (t[idx + strideY] - t[idx]) +
+        this.condZ[idx - strideZ] * (t[idx - strideZ] - t[idx]) +
+        this.condZ[idx] * (t[idx + strideZ] - t[idx]);
+      this.nextTemp[idx] = t[idx] + (heatIn * dt) / this.capacity[idx];
+    }
+
+    const swap = this.temp;
+    this.temp = this.nextTemp;
+    this.nextTemp = swap;
+  }
+
+  // Enthalpy recovery for freezing voxels (see GridPhysicsEngine.settlePhases)
+  private settlePhases() {
+    for (const v of this.phaseVoxels) {
+      const energy = this.capacity[v.idx] * this.temp[v.idx] + this.latentHeat[v.idx] * this.liquidFraction[v.idx];
+      const state = PhaseChangeModel.settle(energy, this.capacity[v.idx], this.latentHeat[v.idx], v.phase);
+      this.temp[v.idx] = state.temp;
+      this.liquidFraction[v.idx] = state.liquidFraction;
+    }
+  }
+
+  // Backward Euler along x, then y, then z (see GridPhysicsEngine.integrateADI)
+  private integrateADI(dt: number) {
+    this.time += dt;
+    const strideY = this.nx;
+    const strideZ = this.nx * this.ny;
+
+    for (let z = 1; z < this.nz - 1; z++) {
+      for (let y = 1; y < this.ny - 1; y++) {
+        this.sweepLine(this.index(0, y, z), 1, this.nx, this.condX, dt);
+      }
+    }
+    for (let z = 1; z < this.nz - 1; z++) {
+      for (let x = 1; x < this.nx - 1; x++) {
+        this.sweepLine(this.index(x, 0, z), strideY, this.ny, this.condY, dt);
+      }
+    }
+    for (let y = 1; y < this.ny - 1; y++) {
+      for (let x = 1; x < this.nx - 1; x++) {
+        this.sweepLine(this.index(x, y, 0), strideZ, this.nz, this.condZ, dt);
+      }
+    }
+  }
+
+  // Implicit solve along the voxel line start, start + stride, ...; `links`
+  // holds the conductance from each voxel to the next one along the line.
+  // Both ends of every line are fixed voxels.
+  private sweepLine(start: number, stride: number, length: number, links: Float64Array, dt: number) {
+    const { lower, diag, upper, rhs, solution, scratch } = this.lineBuffers;
+
+    for (let n = 0; n < length; n++) {
+      const idx = start + n * stride;
+      rhs[n] = this.temp[idx];
+      if (this.fixed[idx]) {
+        lower[n] = 0;
+        diag[n] = 1;
+        upper[n] = 0;
+      } else {
+        const scale = dt / this.capacity[idx];
+        const prevLink = links[idx - stride];
+        const nextLink = links[idx];
+        lower[n] = -prevLink * scale;
+        upper[n] = -nextLink * scale;
+        diag[n] = 1 + (prevLink + nextLink) * scale;
+      }
+    }
+
+    TridiagonalSolver.solve(lower, diag, upper, rhs, solution, length, scratch);
+
+    for (let n = 0; n < length; n++) {
+      this.temp[start + n * stride] = solution[n];
+    }
+  }
+
+  // Current ambient air temperature (F)
+  getAmbientTemp(): number {
+    return this.c2f(this.ambientC);
+  }
+
+  // Thermostat bath state, or null for a fixed bath
+  getBathReport(): BathReport | null {
+    if (!this.bathState) return null;
+    return {
+      temperature: this.c2f(this.bathState.temp),
+      heater_power: this.bathState.heaterPower,
+      chiller_power: this.bathState.chillerPower,
+      heater_energy: this.bathState.heaterEnergy,
+      chiller_energy: this.bathState.chillerEnergy
+    };
+  }
+
+  // Average temperature over the cylinder's full 3D volume, weighted by heat
+  // capacity (F)
+  getSampleTemp(sampleId: string): number {
+    const voxels = this.sampleVoxels.get(sampleId);
+    if (!voxels || voxels.length === 0) return 0;
+
+    let energy = 0;
+    let capacity = 0;
+    for (const idx of voxels) {
+      energy += this.capacity[idx] * this.temp[idx];
+      capacity += this.capacity[idx];
+    }
+    return this.c2f(energy / capacity);
+  }
+
+  // Frozen fraction of the sample's freezable mass, weighted by latent heat
+  getSampleFrozenFraction(sampleId: string): number {
+    const voxels = this.sampleVoxels.get(sampleId);
+    if (!voxels) return 0;
+
+    let frozen = 0;
+    let latent = 0;
+    for (const idx of voxels) {
+      frozen += this.latentHeat[idx] * (1 - this.liquidFraction[idx]);
+      latent += this.latentHeat[idx];
+    }
+    return latent > 0 ? frozen / latent : 0;
+  }
+
+  // Conductivity of the updated fill (see GridPhysicsEngine.getFillConductivity)
+  getFillConductivity(): FillConductivityReport | null {
+    if (this.fillVoxels.length === 0) return null;
+    let sumK = 0;
+    let maxK = 0;
+    let sumNu = 0;
+    for (const idx of this.fillVoxels) {
+      sumK += this.conductivity[idx];
+      maxK = Math.max(maxK, this.conductivity[idx]);
+      sumNu += this.nusselt[idx];
+    }
+    const n = this.fillVoxels.length;
+    return { mean_k: sumK / n, max_k: maxK, mean_nusselt: sumNu / n };
+  }
+
+  // Melted fraction of the fill's phase-change material (0 with no PCM)
+  getFillMeltedFraction(): number {
+    let melted = 0;
+    let latent = 0;
+    for (const v of this.phaseVoxels) {
+      if (!v.inFill) continue;
+      melted += this.latentHeat[v.idx] * this.liquidFraction[v.idx];
+      latent += this.latentHeat[v.idx];
+    }
+    return latent > 0 ? melted / latent : 0;
+  }
+
+  // Horizontal slice at the current slice depth, resampled onto the plan
+  // view's canvas grid (F) so the plan canvas and interference analysis can
+  // use it unchanged. Points outside the container read ambient.
+  getGrid(): number[][] {
+    const gridW = Math.ceil(this.canvasWidth / SLICE_CELL_PX);
+    const gridH = Math.ceil(this.canvasHeight / SLICE_CELL_PX);
+    const z = Math.min(this.nz - 2, 1 + Math.floor(this.sliceDepthIn / VOXEL_SIZE_IN));
+    const ambientF = this.c2f(this.ambientC);
+
+    const rows: number[][] = [];
+    for (let gy = 0; gy < gridH; gy++) {
+      const row: number[] = [];
+      const yIn = (gy * SLICE_CELL_PX - this.originY) / PIXELS_PER_INCH + this.wallIn;
+      const y = 1 + Math.floor(yIn / VOXEL_SIZE_IN);
+      for (let gx = 0; gx < gridW; gx++) {
+        const xIn = (gx * SLICE_CELL_PX - this.originX) / PIXELS_PER_INCH + this.wallIn;
+        const x = 1 + Math.floor(xIn / VOXEL_SIZE_IN);
+        if (xIn < 0 || yIn < 0 || x >= this.nx - 1 || y >= this.ny - 1 || z < 1) {
+          row.push(ambientF);
+        } else {
+          row.push(this.c2f(this.temp[this.index(x, y, z)]));
+        }
+      }
+      rows.push(row);
+    }
+    return rows;
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { WeatherModel } from './WeatherModel';
+import { WeatherSettings } from '../types';
+
+// EPW data row: year, month, day, hour, minute, source flags, dry bulb (°C),
+// then the remaining fields with GHI at 13 and wind speed (m/s) at 21
+const epwRow = (year: number, month: number, day: number, hour: number, tempC: number, ghi: number, windMs: number) => {
+  const f = new Array<string>(35).fill('0');
+  f[0] = String(year);
+  f[1] = String(month);
+  f[2] = String(day);
+  f[3] = String(hour);
+  f[4] = '60';
+  f[5] = '?9?9?9?9E0?9?9?9?9?9?9?9?9?9?9?9?9?9?9?9*9*9?9?9?9';
+  f[6] = String(tempC);
+  f[13] = String(ghi);
+  f[21] = String(windMs);
+  return f.join(',');
+};
+
+const epw = (rows: string[]) => [
+  'LOCATION,Phoenix,AZ,USA,TMY3,722780,33.45,-111.98,-7.0,337.0',
+  'DESIGN CONDITIONS,0',
+  'TYPICAL/EXTREME PERIODS,0',
+  'GROUND TEMPERATURES,0',
+  'HOLIDAYS/DAYLIGHT SAVINGS,No,0,0,0',
+  'COMMENTS 1,test',
+  'COMMENTS 2,test',
+  'DATA PERIODS,1,1,Data,Sunday, 1/ 1,12/31',
+  ...rows
+].join('\n');
+
+const settings = (records: WeatherSettings['records'], start_time = ''): WeatherSettings => ({
+  enabled: true,
+  file_name: 'test.csv',
+  start_time,
+  records,
+  solar_absorptance: 0.7
+});
+
+describe('WeatherModel.parseEPW', () => {
+  it('reads hour-ending rows into local timestamps and US units', () => {
+    const records = WeatherModel.parseEPW(epw([
+      epwRow(1999, 7, 1, 1, 20, 0, 1),
+      epwRow(1999, 7, 1, 2, 25, 400, 2)
+    ]));
+    expect(records).toHaveLength(2);
+    expect(records[0].timestamp).toBe(new Date(1999, 6, 1, 0).getTime());
+    expect(records[1].timestamp).toBe(new Date(1999, 6, 1, 1).getTime());
+    expect(records[0].dry_bulb_f).toBeCloseTo(68, 10);
+    expect(records[1].dry_bulb_f).toBeCloseTo(77, 10);
+    expect(records[1].solar_w_m2).toBe(400);
+    expect(records[1].wind_speed_mph).toBeCloseTo(4.47388, 5);
+  });
+
+  it('places every row in the first row\'s year', () => {
+    const records = WeatherModel.parseEPW(epw([
+      epwRow(2005, 1, 31, 24, 0, 0, 0),
+      epwRow(1991, 2, 1, 1, 0, 0, 0)
+    ]));
+    expect(records[0].timestamp).toBe(new Date(2005, 0, 31, 23).getTime());
+    expect(records[1].timestamp).toBe(new Date(2005, 1, 1, 0).getTime());
+  });
+
+  it('skips short and non-numeric rows', () => {
+    const records = WeatherModel.parseEPW(epw([
+      '1999,7,1,1',
+      epwRow(1999, 7, 1, 1, NaN, 0, 0),
+      epwRow(1999, 7, 1, 2, 10, 0, 0)
+    ]));
+    expect(records).toHaveLength(1);
+    expect(records[0].dry_bulb_f).toBeCloseTo(50, 10);
+  });
+});
+
+describe('WeatherModel.parseCSV', () => {
+  it('reads °F and mph by default', () => {
+    const records = WeatherModel.parseCSV([
+      'Date Time,Temperature,Wind Speed,Solar',
+      '2024-07-01T12:00,95,10,800'
+    ].join('\n'));
+    expect(records).toEqual([{
+      timestamp: new Date(2024, 6, 1, 12).getTime(),
+      dry_bulb_f: 95,
+      wind_speed_mph: 10,
+      solar_w_m2: 800
+    }]);
+  });
+
+  it('converts °C and m/s named in the header', () => {
+    const records = WeatherModel.parseCSV([
+      'timestamp,dry bulb (°C),wind speed (m/s)',
+      '2024-07-01T12:00,35,5'
+    ].join('\n'));
+    expect(records[0].dry_bulb_f).toBeCloseTo(95, 10);
+    expect(records[0].wind_speed_mph).toBeCloseTo(11.1847, 4);
+    expect(records[0].solar_w_m2).toBe(0);
+  });
+
+  it('prefers a dry-bulb column over other temperatures', () => {
+    const records = WeatherModel.parseCSV([
+      'time,dew point temp,dry_bulb',
+      '2024-07-01T12:00,50,90'
+    ].join('\n'));
+    expect(records[0].dry_bulb_f).toBe(90);
+  });
+
+  it('returns nothing without a time or temperature column', () => {
+    expect(WeatherModel.parseCSV('time,wind\n2024-07-01T12:00,3')).toEqual([]);
+    expect(WeatherModel.parseCSV('temp,wind\n90,3')).toEqual([]);
+  });
+
+  it('sorts records through parse', () => {
+    const records = WeatherModel.parse('field.csv', [
+      'time,temp',
+      '2024-07-01T14:00,92',
+      '2024-07-01T12:00,88'
+    ].join('\n'));
+    expect(records.map(r => r.dry_bulb_f)).toEqual([88, 92]);
+  });
+});
+
+describe('WeatherModel.conditionsAt', () => {
+  const t0 = new Date(2024, 6, 1, 12).getTime();
+  const weather = settings([
+    { timestamp: t0, dry_bulb_f: 80, wind_speed_mph: 0, solar_w_m2: 0 },
+    { timestamp: t0 + 3600_000, dry_bulb_f: 90, wind_speed_mph: 10, solar_w_m2: 600 }
+  ]);
+
+  it('interpolates between hours', () => {
+    expect(WeatherModel.conditionsAt(weather, 900)).toEqual({ dry_bulb_f: 82.5, wind_speed_mph: 2.5, solar_w_m2: 150 });
+  });
+
+  it('holds the end records beyond the file', () => {
+    expect(WeatherModel.conditionsAt(weather, -600)?.dry_bulb_f).toBe(80);
+    expect(WeatherModel.conditionsAt(weather, 7200)?.dry_bulb_f).toBe(90);
+  });
+
+  it('starts from start_time and fills the given out object', () => {
+    const out = { dry_bulb_f: 0, wind_speed_mph: 0, solar_w_m2: 0 };
+    const late = settings(weather.records, '2024-07-01T12:30');
+    expect(WeatherModel.conditionsAt(late, 0, undefined, out)).toBe(out);
+    expect(out.dry_bulb_f).toBeCloseTo(85, 10);
+    expect(WeatherModel.conditionsAt(weather, 0, t0 + 1800_000)?.dry_bulb_f).toBeCloseTo(85, 10);
+  });
+
+  it('returns null when weather is off or empty', () => {
+    expect(WeatherModel.conditionsAt(undefined, 0)).toBeNull();
+    expect(WeatherModel.conditionsAt({ ...weather, enabled: false }, 0)).toBeNull();
+    expect(WeatherModel.conditionsAt(settings([]), 0)).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+import { WeatherRecord, WeatherSettings, ConvectionSettings } from '../types';
+
+export interface WeatherConditions {
+  dry_bulb_f: number;
+  wind_speed_mph: number;
+  solar_w_m2: number;
+}
+
+const MPH_PER_MS = 2.23694;
+// Forced-convection slope of the McAdams wind correlation, W/(m²·K) per m/s
+const WIND_H_SLOPE = 3.8;
+
+export class WeatherModel {
+  static isActive(weather: WeatherSettings | undefined): boolean {
+    return !!weather && weather.enabled && weather.records.length > 0;
+  }
+
+  // Conditions after `seconds` of simulated time, or null when no weather
+  // file drives the run. Engines pass the run's `start` (see
+  // startTimestamp) and an `out` they reuse on every sub-step.
+  static conditionsAt(
+    weather: WeatherSettings | undefined,
+    seconds: number,
+    start?: number,
+    out: WeatherConditions = { dry_bulb_f: 0, wind_speed_mph: 0, solar_w_m2: 0 }
+  ): WeatherConditions | null {
+    if (!weather || !this.isActive(weather)) return null;
+    const records = weather.records;
+    const t = (start ?? this.startTimestamp(weather)) + seconds * 1000;
+
+    if (t <= records[0].timestamp) return this.conditionsOf(records[0], out);
+    const last = records[records.length - 1];
+    if (t >= last.timestamp) return this.conditionsOf(last, out);
+
+    // Binary search for the bracketing hours
+    let lo = 0;
+    let hi = records.length - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (records[mid].timestamp <= t) lo = mid; else hi = mid;
+    }
+    const a = records[lo];
+    const b = records[hi];
+    const f = (t - a.timestamp) / (b.timestamp - a.timestamp);
+    out.dry_bulb_f = a.dry_bulb_f + f * (b.dry_bulb_f - a.dry_bulb_f);
+    out.wind_speed_mph = a.wind_speed_mph + f * (b.wind_speed_mph - a.wind_speed_mph);
+    out.solar_w_m2 = a.solar_w_m2 + f * (b.solar_w_m2 - a.solar_w_m2);
+    return out;
+  }
+
+  private static conditionsOf(record: WeatherRecord, out: WeatherConditions): WeatherConditions {
+    out.dry_bulb_f = record.dry_bulb_f;
+    out.wind_speed_mph = record.wind_speed_mph;
+    out.solar_w_m2 = record.solar_w_m2;
+    return out;
+  }
+
+  // Wall-clock time (ms) at simulated time 0. Falls back to the first record
+  // when no start has been chosen.
+  static startTimestamp(weather: WeatherSettings): number {
+    const start = Date.parse(weather.start_time);
+    return Number.isNaN(start) ? weather.records[0].timestamp : start;
+  }
+
+  // Film coefficients with the wind's forced convection added to the still-air
+  // values of `convection`
+  static windFilm(convection: ConvectionSettings, windMph: number): ConvectionSettings {
+    const extra = WIND_H_SLOPE * Math.max(0, windMph) / MPH_PER_MS;
+    return { ...convection, wall_h: convection.wall_h + extra, top_h: convection.top_h + extra };
+  }
+
+  // 'YYYY-MM-DDTHH:mm' in local time, the format of a datetime-local input
+  static formatLocal(timestamp: number): string {
+    const d = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+  }
+
+  // Records from an EPW or CSV file, sorted by time
+  static parse(fileName: string, text: string): WeatherRecord[] {
+    const isEPW = /\.epw$/i.test(fileName) || text.startsWith('LOCATION');
+    const records = isEPW ? this.parseEPW(text) : this.parseCSV(text);
+    return records.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  // EnergyPlus weather: eight header lines, then one row per hour with the
+  // hour ending 1-24. Typical-year files mix source years month by month, so
+  // every row is placed in the first row's year.
+  static parseEPW(text: string): WeatherRecord[] {
+    const records: WeatherRecord[] = [];
+    let year: number | null = null;
+    for (const line of text.split(/\r?\n/).slice(8)) {
+      const f = line.split(',');
+      if (f.length < 22) continue;
+      const month = Number(f[1]);
+      const day = Number(f[2]);
+      const hour = Number(f[3]);
+      const dryBulbC = Number(f[6]);
+      const ghi = Number(f[13]);
+      const windMs = Number(f[21]);
+      if (![month, day, hour, dryBulbC].every(Number.isFinite)) continue;
+      year ??= Number(f[0]);
+      records.push({
+        timestamp: new Date(year, month - 1, day, hour - 1).getTime(),
+        dry_bulb_f: dryBulbC * 9 / 5 + 32,
+        wind_speed_mph: Number.isFinite(windMs) ? windMs * MPH_PER_MS : 0,
+        solar_w_m2: Number.isFinite(ghi) ? ghi : 0
+      });
+    }
+    return records;
+  }
+
+  // CSV with a header row naming the columns: a date/time column, a dry-bulb
+  // or temperature column and optional wind and solar columns. Temperatures
+  // are °F and wind mph unless the header says °C / m/s; solar is W/m².
+  static parseCSV(text: string): WeatherRecord[] {
+    const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
+    if (lines.length < 2) return [];
+    const header = lines[0].split(',').map(h => h.trim().toLowerCase());
+    // First column matching the preferred pattern, else the fallback
+    const find = (pattern: RegExp, fallback?: RegExp) => {
+      const col = header.findIndex(h => pattern.test(h));
+      return col >= 0 || !fallback ? col : header.findIndex(h => fallback.test(h));
+    };
+    const timeCol = find(/date|time/);
+    const tempCol = find(/dry.?bulb/, /temp/);
+    const windCol = find(/wind.?(speed|spd)/, /wind/);
+    const solarCol = find(/solar|ghi|irradiance|radiation/);
+    if (timeCol < 0 || tempCol < 0) return [];
+    const tempInC = /°c|\(c\)|_c\b|celsius/.test(header[tempCol]);
+    const windInMs = windCol >= 0 && /m\/s|mps/.test(header[windCol]);
+
+    const records: WeatherRecord[] = [];
+    for (const line of lines.slice(1)) {
+      const f = line.split(',').map(v => v.trim());
+      const timestamp = Date.parse(f[timeCol]);
+      const temp = Number(f[tempCol]);
+      if (Number.isNaN(timestamp) || !Number.isFinite(temp)) continue;
+      const wind = windCol >= 0 ? Number(f[windCol]) : 0;
+      const solar = solarCol >= 0 ? Number(f[solarCol]) : 0;
+      records.push({
+        timestamp,
+        dry_bulb_f: tempInC ? temp * 9 / 5 + 32 : temp,
+        wind_speed_mph: Number.isFinite(wind) ? (windInMs ? wind * MPH_PER_MS : wind) : 0,
+        solar_w_m2: Number.isFinite(solar) ? Math.max(0, solar) : 0
+      });
+    }
+    return records;
+  }
+}
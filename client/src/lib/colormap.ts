@@ -0,0 +1,32 @@
+// Turbo colormap (polynomial approximation), t in [0, 1]
+export function getTurboColor(t: number) {
+  const kRedVec4 = [
+    0.13572138, 4.6153926, -42.66032258, 132.13108234, -152.94239396,
+    59.28637943,
+  ];
+  const kGreenVec4 = [
+    0.09140261, 2.19418839, 4.84296658, -14.18503333, 4.27729857, 2.82956604,
+  ];
+  const kBlueVec4 = [
+    0.1066733, 12.64194608, -60.58204836, 110.36276771, -89.90310912,
+    27.34824973,
+  ];
+
+  const x = Math.max(0, Math.min(1, t));
+  const v4 = [1, x, x * x, x * x * x, x * x * x * x, x * x * x * x * x];
+
+  let r = 0,
+    g = 0,
+    b = 0;
+  for (let i = 0; i < 6; i++) {
+    r += v4[i] * kRedVec4[i];
+    g += v4[i] * kGreenVec4[i];
+    b += v4[i] * kBlueVec4[i];
+  }
+
+  return {
+    r: Math.floor(Math.max(0, Math.min(1, r)) * 255),
+    g: Math.floor(Math.max(0, Math.min(1, g)) * 255),
+    b: Math.floor(Math.max(0, Math.min(1, b)) * 255),
+  };
+}
@@ -1,9 +1,39 @@
+// One point of a piecewise-linear property table. Values are held constant
+// beyond the first and last points.
+export interface PropertyPoint {
+  temp_c: number; // Celsius
+  value: number;
+}
+
 export interface Material {
   name: string;
   thermal_conductivity: number; // W/(m·K)
   specific_heat: number; // J/(kg·K)
   density: number; // kg/m³
   color: string;
+
+  // Optional temperature tables, sorted by temperature. When present they
+  // replace the constant value above.
+  conductivity_table?: PropertyPoint[];
+  specific_heat_table?: PropertyPoint[];
+  density_table?: PropertyPoint[];
+  phase_change?: PhaseChange; // Absent = no latent heat
+}
+
+// Latent heat released over a freezing range. Below the solidus the material
+// is fully frozen, above the liquidus fully liquid; in between the liquid
+// fraction varies linearly with temperature.
+export interface PhaseChange {
+  latent_heat: number; // J/kg
+  solidus_c: number; // Celsius
+  liquidus_c: number; // Celsius
+}
+
+// Material properties evaluated at one temperature
+export interface MaterialProperties {
+  thermal_conductivity: number; // W/(m·K)
+  specific_heat: number; // J/(kg·K)
+  density: number; // kg/m³
 }
 
 export type SampleSize = '2x4' | '4x8';
@@ -27,6 +57,7 @@ export interface Sample {
   outer_thickness_in: number; // Aluminum thickness
   middle_thickness_in: number; // Plastic thickness
   water_mass_lbs: number; // Water mass
+  contact_resistance?: ContactResistance; // Absent = perfectly bonded layers
 
   // Geometry (Calculated for rendering/physics)
   outer_radius_fraction: number; // Always 1.0
@@ -36,22 +67,260 @@ export interface Sample {
   // Thermal State
   initial_temperature: number; // Fahrenheit
   temperature: number; // Current Temp (F)
+  frozen_fraction?: number; // Current frozen fraction of the core (0-1)
+  hydration?: HydrationSettings; // Absent = passive core
   
   // Removed Peltier Mode as requested
 }
 
+// Thermal contact resistance at each mold interface (m²·K/W), e.g. the air
+// gap between the plastic liner and the sleeve. 0 = perfect contact.
+export interface ContactResistance {
+  core_middle: number;
+  middle_outer: number;
+  outer_fill: number; // Outer sleeve to whatever surrounds the sample
+}
+
+// Cement hydration heat released in the core. The degree of hydration follows
+// alpha = exp(-(tau / te)^beta), where te is the Arrhenius equivalent age.
+export interface HydrationSettings {
+  enabled: boolean;
+  total_heat_kj_per_kg: number; // Heat released at full hydration, per kg of core
+  tau_hours: number; // Time parameter
+  beta: number; // Shape parameter
+  activation_energy_kj_per_mol: number;
+}
+
+// User-defined phase-change material for the container fill. It melts over
+// the range just below the melting point.
+export interface PCMSettings {
+  melting_point_f: number; // Fully liquid above this (F)
+  melting_range_f: number; // Width of the melting range (F)
+  latent_heat_kj_per_kg: number;
+  initial_temperature_f: number; // Fill temperature when the run starts
+  solid: MaterialProperties;
+  liquid: MaterialProperties;
+}
+
+// Well-mixed water bath whose temperature is a lumped state with its own
+// heat capacity, driven by a heater (and optional chiller) under thermostat
+// control. 'fixed' keeps the ideal bath held at water_temperature; 'passive'
+// is unheated, unstirred water that carries heat by natural convection.
+export interface BathSettings {
+  mode: 'fixed' | 'thermostat' | 'passive';
+  control: 'on_off' | 'pid';
+  setpoint_f: number;
+  deadband_f: number; // On/off: width of the switching band around the setpoint
+  heater_w: number;
+  chiller_w: number; // 0 = no chiller
+  pid_kp: number; // Fraction of full power per °F of error
+  pid_ki: number; // Fraction of full power per °F·minute of accumulated error
+  pid_kd: number; // Fraction of full power per °F/minute of temperature change
+}
+
+export interface AmbientKeyframe {
+  time_hours: number; // Simulated time since the start of the run
+  temperature: number; // Fahrenheit
+}
+
+// Time-varying ambient temperature. 'keyframes' interpolates linearly and
+// holds the first and last values beyond the ends (CSV imports land here);
+// 'sinusoidal' swings about ambient_temperature.
+export interface AmbientSchedule {
+  mode: 'constant' | 'keyframes' | 'sinusoidal';
+  keyframes: AmbientKeyframe[];
+  amplitude_f: number; // Half the day/night swing
+  period_hours: number;
+  peak_hours: number; // Time of the first warmest point
+}
+
+// Losses from the open top surface besides the convective film. Radiation
+// leaves every top cell; evaporation only open water.
+export interface SurfaceLossSettings {
+  radiation_enabled: boolean;
+  emissivity: number; // 0-1
+  sky_follows_ambient: boolean; // Indoors: radiate to surroundings at ambient
+  sky_temperature_f: number; // Used otherwise; a clear night sky is far below ambient
+  evaporation_enabled: boolean;
+  relative_humidity: number; // %
+  air_speed_ms: number; // Air speed over the water surface (m/s)
+}
+
+// One hourly observation from a weather file
+export interface WeatherRecord {
+  timestamp: number; // Local wall-clock time, ms since the epoch
+  dry_bulb_f: number;
+  wind_speed_mph: number;
+  solar_w_m2: number; // Global horizontal irradiance
+}
+
+// Field curing driven by a weather file. Simulated time 0 is start_time;
+// ambient, the film coefficients and the solar load on the lid follow the
+// records (interpolated between hours, held beyond the ends).
+export interface WeatherSettings {
+  enabled: boolean;
+  file_name: string;
+  start_time: string; // Local 'YYYY-MM-DDTHH:mm'
+  records: WeatherRecord[];
+  solar_absorptance: number; // Fraction of the irradiance the lid absorbs (0-1)
+}
+
+// Convective (Robin) boundary: heat leaves through a surface film of
+// coefficient h instead of into fixed-temperature air cells
+export interface ConvectionSettings {
+  enabled: boolean;
+  preset: string; // Key into ConvectionLibrary, or 'Custom'
+  wall_h: number; // W/(m²·K), container outer walls
+  top_h: number; // W/(m²·K), open top surface
+}
+
+// A lid or floor closing the container. The plan view sees it as a
+// conductance to ambient through the depth of every column.
+export interface ContainerPanel {
+  material: Material;
+  thickness_in: number;
+}
+
 export interface Container {
   shape: 'circle' | 'rectangle';
   width: number; // Diameter if circle
   height: number; // Ignored if circle
   depth: number; // New: Depth/Height of container for volume calc
   
-  fill_type: 'Phenolic Foam' | 'Water';
+  fill_type: 'Phenolic Foam' | 'Water' | 'PCM';
   fill_material: Material;
-  water_temperature?: number; // Controlled water temperature in Fahrenheit (only for Water fill)
+  water_temperature?: number; // Controlled water temperature in Fahrenheit (only for Water fill); a thermostat bath starts here
+  pcm?: PCMSettings; // Only for PCM fill; fill_material is built from it
+  bath?: BathSettings; // Only for Water fill; absent = fixed-temperature bath
   
   wall_material: Material;
+  wall_thickness_in?: number; // Wall built outward from the fill; absent = no wall
+  lid?: ContainerPanel; // Absent = open top
+  floor?: ContainerPanel; // Absent = no heat through the floor (plan view)
+  ambient_temperature: number; // Fahrenheit; the mean of a day/night cycle
+  ambient_schedule?: AmbientSchedule; // Absent = constant ambient_temperature
+  weather?: WeatherSettings; // When enabled, overrides ambient_schedule
+  surface_losses?: SurfaceLossSettings; // Absent = no radiation or evaporation
+  convection?: ConvectionSettings; // Absent = fixed-temperature air cells
+}
+
+// 'explicit' sub-steps at the stability limit; 'adi' takes large implicit steps
+export type SolverMode = 'explicit' | 'adi';
+
+export interface SolverSettings {
+  mode: SolverMode;
+  time_step_min: number; // Implicit step length in minutes (ADI only)
+  cells_per_inch?: number; // Plan-view mesh resolution; absent = 5
+  sleep_rate_f_per_hour?: number; // Plan view: blocks changing more slowly sleep; absent = never
+}
+
+// One mesh of a convergence study, at the end of the run
+export interface MeshStudyLevel {
+  cells_per_inch: number;
+  cell_count: number;
+  sample_temps: Record<string, number>; // Fahrenheit, by sample ID
+  max_change: number | null; // Largest sample change (F) from the next coarser mesh
+}
+
+export interface MeshStudyReport {
+  duration_hours: number;
+  levels: MeshStudyLevel[]; // Coarsest first
+}
+
+// Direct solve for the plan-view equilibrium field
+export interface SteadyStateReport {
+  converged: boolean;
+  passes: number; // Linear solves, each with properties and surface losses updated
+  cg_iterations: number; // Conjugate-gradient iterations over all passes
+  max_imbalance_w: number; // Largest net heat flow left into any updated cell (W)
+  sample_temps: Record<string, number>; // Fahrenheit, by sample ID
+  bath: SteadyBathReport | null; // Thermostat bath only
+}
+
+// Thermostat bath at the steady state
+export interface SteadyBathReport {
+  temp_f: number;
+  power_w: number; // Heater (> 0) or chiller (< 0) power it takes
+  holds_setpoint: boolean; // false = saturated at full power short of the setpoint
+}
+
+// Lumped RC network estimate of the sample cooling curves
+export interface RCEstimate {
+  times: number[]; // Seconds from the start of the run
+  sample_temps: Record<string, number[]>; // Fahrenheit, by sample ID, one per time
+}
+
+// 'plan' is the 2D plan-view grid; 'axisymmetric' is an r-z model of one sample;
+// 'voxel' is the full 3D container extruded to its depth
+export type SimulationMode = 'plan' | 'axisymmetric' | 'voxel';
+
+// Energy ledger from the grid engine. Stored energies are relative to frozen
+// material at 0 °C; boundary heat is the net heat delivered by
+// fixed-temperature cells and surface films, generated heat is released
+// inside the domain.
+export interface EnergyReport {
+  time: number; // Simulated seconds
+  domain_energy: number; // J, all updated cells
+  fill_energy: number; // J, updated fill cells
+  wall_energy: number; // J, container wall cells
+  sample_energy: Record<string, number>; // J, by sample id
+  domain_change: number; // J, domain_energy minus its initial value
+  boundary_heat_in: number; // J, cumulative
+  heat_generated: number; // J, cumulative hydration heat
+  radiation_loss: number; // J, cumulative, from the open top
+  evaporation_loss: number; // J, cumulative, from open water
+  balance_error: number; // J, domain_change - boundary_heat_in - heat_generated + both losses
+  relative_error: number; // |balance_error| relative to the energy exchanged, or to the heat stored across the initial temperature span if larger
+}
+
+export interface BathReport {
+  temperature: number; // Fahrenheit
+  heater_power: number; // W delivered over the last step
+  chiller_power: number; // W removed over the last step
+  heater_energy: number; // J, cumulative
+  chiller_energy: number; // J, cumulative
+}
+
+// Conductivity of the updated fill cells, including any natural-convection
+// enhancement of a passive water fill
+export interface FillConductivityReport {
+  mean_k: number; // W/(m·K)
+  max_k: number;
+  mean_nusselt: number; // 1 = conduction only
+}
+
+// Engine readings taken for each graph point
+export interface EngineSnapshot {
+  time: number; // Simulated seconds
   ambient_temperature: number; // Fahrenheit
+  sample_temps: Record<string, number>; // Fahrenheit, by sample ID
+  frozen_fractions: Record<string, number>; // 0-1, by sample ID
+  fill_melted: number; // 0-1, PCM fill only
+  bath: BathReport | null;
+  fill_conductivity: FillConductivityReport | null;
+  energy: EnergyReport | null; // Plan view only
 }
 
+// Messages to the plan-view physics worker. Requests with an `id` are
+// answered with a response carrying the same id.
+export type PhysicsWorkerRequest =
+  | { type: 'initialize', container: Container, samples: Sample[], canvas_width: number, canvas_height: number }
+  | { type: 'settings', solver: SolverSettings }
+  | { type: 'step', id: number, seconds: number, with_grid: boolean }
+  | { type: 'pause' }
+  | { type: 'query-sample-temps', id: number, sample_ids: string[] }
+  | { type: 'get-grid', id: number }
+  | { type: 'solve-steady-state', id: number }
+  | { type: 'mesh-study', id: number, container: Container, samples: Sample[], canvas_width: number, canvas_height: number, solver: SolverSettings, duration_hours: number, levels: number[] }
+  | { type: 'cancel-mesh-study' };
+
+// `grid` is the row-major display grid (F), transferred rather than copied
+export type PhysicsWorkerResponse =
+  | { type: 'frame', id: number, time: number, grid: Float32Array | null, grid_width: number, grid_height: number }
+  | { type: 'sample-temps', id: number, snapshot: EngineSnapshot }
+  | { type: 'steady-state', id: number, report: SteadyStateReport }
+  | { type: 'mesh-study-progress', id: number, fraction: number }
+  | { type: 'mesh-study', id: number, report: MeshStudyReport | null } // null = cancelled
+  | { type: 'error', id: number, message: string };
+
 export type ToolType = 'select' | 'add_sample';
\ No newline at end of file